@@ -1,11 +1,26 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { StyleSheet, ScrollView } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
 
 import { ConnectionPanel } from '@/components/ConnectionPanel';
 import { QRScanner } from '@/components/QRScanner';
-import { useSensorStream } from '@/hooks/useSensorStream';
-import { useDiscovery } from '@/hooks/useDiscovery';
+import { RecordingPanel } from '@/components/RecordingPanel';
+import {
+  useSensorStream,
+  type OrientationMode,
+  type PacketPrecision,
+  type SampleMode,
+} from '@/hooks/useSensorStream';
+import { serverKey, useDiscovery } from '@/hooks/useDiscovery';
+import { useSavedServers, type SavedServer } from '@/hooks/useSavedServers';
+import { useSettings } from '@/hooks/useSettings';
+import { useSensorRecorder } from '@/hooks/useSensorRecorder';
+import { DEFAULT_UDP_PORT, DEFAULT_WS_PORT, type ConnectUriError } from '@/utils/connectUri';
+import { readRecording } from '@/utils/recordingFiles';
+import { createReplaySource, type ReplaySource } from '@/utils/sensorReplay';
+import { expoDeviceMotionSource } from '@/utils/sensorSource';
+import { createSyntheticSource } from '@/utils/syntheticSensorSource';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
 export type TransportMode = 'udp' | 'websocket';
@@ -13,16 +28,44 @@ export type TransportMode = 'udp' | 'websocket';
 export default function Index() {
   const colorScheme = useColorScheme();
   const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { settings, isLoaded: isSettingsLoaded } = useSettings();
   const [ipAddress, setIpAddress] = useState('');
-  const [port, setPort] = useState('9080');
-  const [transportMode, setTransportMode] = useState<TransportMode>('udp');
+  const [wsPort, setWsPort] = useState(DEFAULT_WS_PORT.toString());
+  // Set by QR scans and saved servers; beacons and the server list supply their own.
+  const [udpPort, setUdpPort] = useState(DEFAULT_UDP_PORT);
+  const [transportMode, setTransportMode] = useState<TransportMode>(settings.defaultTransport);
+  const [orientationMode, setOrientationMode] = useState<OrientationMode>('euler');
+  const [precision, setPrecision] = useState<PacketPrecision>('full');
+  const [sampleMode, setSampleMode] = useState<SampleMode>('latest');
+  const [redundancy, setRedundancy] = useState(0);
   const [isQRScannerVisible, setIsQRScannerVisible] = useState(false);
+  // Why the scanner was opened, when the app opened it rather than the user.
+  const [qrScannerNotice, setQrScannerNotice] = useState<string | undefined>(undefined);
+  const [replaySource, setReplaySource] = useState<ReplaySource | null>(null);
+  const [replayId, setReplayId] = useState<string | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayLoop, setReplayLoop] = useState(false);
+  // Only the most recently requested recording may start once loaded.
+  const requestedReplayIdRef = useRef<string | null>(null);
 
-  const { discoveredServer, handleDeepLink } = useDiscovery();
+  // Server key to connect to as soon as it becomes the stream's target.
+  const [pendingConnectKey, setPendingConnectKey] = useState<string | null>(null);
+  const wasConnectedRef = useRef(false);
+  const hasRestoredLastServerRef = useRef(false);
+  const hasTriedAutoConnectRef = useRef(false);
 
-  const serverIp = transportMode === 'udp' && discoveredServer ? discoveredServer.ip : ipAddress;
-  const serverPort =
-    transportMode === 'udp' && discoveredServer ? discoveredServer.port : parseInt(port, 10) || 9080;
+  const { servers, discoveredServer, selectServer, handleDeepLink, addSavedServer } = useDiscovery();
+  const { savedServers, isLoaded, autoConnect, setAutoConnect, rememberServer, forgetServer } = useSavedServers();
+
+  const useDiscoveredServer = transportMode === 'udp' && discoveredServer !== null;
+  const serverIp = useDiscoveredServer ? discoveredServer.ip : ipAddress;
+  const serverUdpPort = useDiscoveredServer ? discoveredServer.udpPort : udpPort;
+  const serverWsPort = useDiscoveredServer ? discoveredServer.wsPort : parseInt(wsPort, 10) || DEFAULT_WS_PORT;
+  const motionSource = useMemo(
+    () => (settings.motionSource === 'synthetic' ? createSyntheticSource() : expoDeviceMotionSource),
+    [settings.motionSource],
+  );
 
   const {
     sensorData,
@@ -32,18 +75,221 @@ export default function Index() {
     requestCalibration,
     packetsSent,
     connectionState,
-    latency,
+    connectionQuality,
+    isFallbackActive,
+    redundancy: redundancyStats,
+    transportMode: activeTransport,
+    isStreaming,
+    onSample,
+    serverCapabilities,
   } = useSensorStream({
     transport: transportMode,
+    orientationMode,
+    precision,
+    sampleMode,
+    redundancy,
+    serverProtocolVersion: useDiscoveredServer ? discoveredServer.version : undefined,
+    pairingKey: useDiscoveredServer ? discoveredServer.pairingKey : undefined,
     serverIp,
-    serverPort,
-    wsUrl: `ws://${ipAddress}:${port}`,
+    serverPort: serverUdpPort,
+    wsFallbackPort: serverWsPort,
+    wsUrl: `ws://${ipAddress}:${wsPort}`,
+    source: replaySource ?? motionSource,
+  });
+  const isReplaying = replaySource !== null && isStreaming;
+
+  const { recordings, activeRecording, startRecording, stopRecording, deleteRecording } = useSensorRecorder({
+    onSample,
+    connectionState,
+    transport: activeTransport,
+    isFallbackActive,
   });
 
+  const handleStartRecording = useCallback(() => {
+    startRecording({
+      settings: {
+        transport: transportMode,
+        orientationMode,
+        precision,
+        sampleMode,
+        redundancy,
+        sensorUpdateIntervalMs: settings.sensorUpdateIntervalMs,
+        sendThrottleIntervalMs: settings.sendThrottleIntervalMs,
+      },
+      server: serverIp
+        ? {
+            ip: serverIp,
+            udpPort: serverUdpPort,
+            wsPort: serverWsPort,
+            version: discoveredServer?.version,
+            name: useDiscoveredServer ? discoveredServer.name : undefined,
+          }
+        : null,
+    });
+  }, [
+    startRecording,
+    transportMode,
+    orientationMode,
+    precision,
+    sampleMode,
+    redundancy,
+    settings.sensorUpdateIntervalMs,
+    settings.sendThrottleIntervalMs,
+    serverIp,
+    serverUdpPort,
+    serverWsPort,
+    discoveredServer,
+    useDiscoveredServer,
+  ]);
+
+  const handlePlayRecording = useCallback((id: string) => {
+    requestedReplayIdRef.current = id;
+    void readRecording(id).then((recording) => {
+      if (requestedReplayIdRef.current !== id) {
+        return;
+      }
+      if (!recording) {
+        console.warn('[Replay]', `Recording ${id} could not be read`);
+        requestedReplayIdRef.current = null;
+        return;
+      }
+      setReplayId(id);
+      setReplaySource(createReplaySource(recording, { speed: replaySpeed, loop: replayLoop }));
+    });
+  }, [replaySpeed, replayLoop]);
+
+  const handleStopReplay = useCallback(() => {
+    requestedReplayIdRef.current = null;
+    setReplayId(null);
+    setReplaySource(null);
+  }, []);
+
+  const handleReplaySpeedChange = useCallback((speed: number) => {
+    setReplaySpeed(speed);
+    replaySource?.setSpeed(speed);
+  }, [replaySource]);
+
+  const handleReplayLoopChange = useCallback((loop: boolean) => {
+    setReplayLoop(loop);
+    replaySource?.setLoop(loop);
+  }, [replaySource]);
+
   const handleConnect = useCallback((wsUrl: string) => {
     connect(wsUrl);
   }, [connect]);
 
+  const handleSelectSavedServer = useCallback((server: SavedServer) => {
+    if (isConnected) {
+      return;
+    }
+    // Unsigned packets to a game that requires pairing are dropped silently, so
+    // ask for the QR code unless it was already scanned since the game started.
+    const key = serverKey(server);
+    if (
+      server.requiresPairing &&
+      server.lastTransport === 'udp' &&
+      !servers.some((known) => serverKey(known) === key && known.pairingKey !== undefined)
+    ) {
+      setQrScannerNotice(`Scan the QR code on ${server.name ?? server.ip} to pair again.`);
+      setIsQRScannerVisible(true);
+      return;
+    }
+    setIpAddress(server.ip);
+    setWsPort(server.wsPort.toString());
+    setUdpPort(server.udpPort);
+    setTransportMode(server.lastTransport);
+    if (server.lastTransport === 'udp') {
+      addSavedServer(server);
+    }
+    setPendingConnectKey(key);
+  }, [isConnected, servers, addSavedServer]);
+
+  // Connect once the stream targets the chosen server. This runs after the
+  // stream hook has picked up the new address, so connect() sees it.
+  useEffect(() => {
+    if (pendingConnectKey === null) {
+      return;
+    }
+    if (isConnected) {
+      setPendingConnectKey(null);
+      return;
+    }
+    if (serverKey({ ip: serverIp, udpPort: serverUdpPort }) === pendingConnectKey) {
+      setPendingConnectKey(null);
+      connect();
+    }
+  }, [pendingConnectKey, isConnected, serverIp, serverUdpPort, connect]);
+
+  // Fill the connection fields from the most recent server on launch, or start
+  // on the default transport from settings.
+  useEffect(() => {
+    if (!isLoaded || !isSettingsLoaded || hasRestoredLastServerRef.current) {
+      return;
+    }
+    hasRestoredLastServerRef.current = true;
+    if (isConnected) {
+      return;
+    }
+    const lastServer = savedServers[0];
+    if (lastServer) {
+      setIpAddress(lastServer.ip);
+      setWsPort(lastServer.wsPort.toString());
+      setUdpPort(lastServer.udpPort);
+    }
+    setTransportMode(lastServer?.lastTransport ?? settings.defaultTransport);
+  }, [isLoaded, isSettingsLoaded, savedServers, settings.defaultTransport, isConnected]);
+
+  // Auto-connect at most once per launch, and only while no connection has been attempted.
+  useEffect(() => {
+    if (!autoConnect || !isLoaded || connectionState !== 'idle' || hasTriedAutoConnectRef.current) {
+      return;
+    }
+    const lastServer = savedServers[0];
+    if (!lastServer || !servers.some((server) => serverKey(server) === serverKey(lastServer))) {
+      return;
+    }
+    // Never pop the scanner up unprompted; paired servers wait for a tap.
+    if (lastServer.requiresPairing && lastServer.lastTransport === 'udp') {
+      hasTriedAutoConnectRef.current = true;
+      return;
+    }
+    hasTriedAutoConnectRef.current = true;
+    handleSelectSavedServer(lastServer);
+  }, [autoConnect, isLoaded, connectionState, savedServers, servers, handleSelectSavedServer]);
+
+  useEffect(() => {
+    if (isConnected === wasConnectedRef.current) {
+      return;
+    }
+    wasConnectedRef.current = isConnected;
+    if (!isConnected) {
+      return;
+    }
+    hasTriedAutoConnectRef.current = true;
+    const key = serverKey({ ip: serverIp, udpPort: serverUdpPort });
+    const saved = savedServers.find((server) => serverKey(server) === key);
+    rememberServer({
+      name: useDiscoveredServer ? discoveredServer.name ?? saved?.name : saved?.name,
+      ip: serverIp,
+      udpPort: serverUdpPort,
+      wsPort: serverWsPort,
+      version: useDiscoveredServer ? discoveredServer.version : saved?.version ?? 1,
+      lastTransport: transportMode,
+      requiresPairing: serverCapabilities?.pairingRequired ?? false,
+    });
+  }, [
+    isConnected,
+    serverIp,
+    serverUdpPort,
+    serverWsPort,
+    savedServers,
+    useDiscoveredServer,
+    discoveredServer,
+    transportMode,
+    serverCapabilities,
+    rememberServer,
+  ]);
+
   const handleTransportModeChange = useCallback((mode: TransportMode) => {
     if (isConnected) {
       disconnect();
@@ -51,16 +297,20 @@ export default function Index() {
     setTransportMode(mode);
   }, [isConnected, disconnect]);
 
-  const handleQRScan = useCallback((data: string) => {
-    const server = handleDeepLink(data);
-    if (server) {
-      setIpAddress(server.ip);
-      setPort(server.port.toString());
-      setTransportMode('udp');
+  const handleQRScan = useCallback((data: string): ConnectUriError | null => {
+    const result = handleDeepLink(data);
+    if (!result.ok) {
+      return result.error;
     }
+    setIpAddress(result.link.host);
+    setWsPort(result.link.wsPort.toString());
+    setUdpPort(result.link.udpPort);
+    setTransportMode('udp');
+    return null;
   }, [handleDeepLink]);
 
   const handleOpenQRScanner = useCallback(() => {
+    setQrScannerNotice(undefined);
     setIsQRScannerVisible(true);
   }, []);
 
@@ -72,6 +322,10 @@ export default function Index() {
     return requestCalibration();
   }, [requestCalibration]);
 
+  const handleOpenSettings = useCallback(() => {
+    router.push('/settings');
+  }, [router]);
+
   const backgroundColor = colorScheme === 'dark' ? '#070B10' : '#F3F7FB';
 
   return (
@@ -91,27 +345,62 @@ export default function Index() {
       >
         <ConnectionPanel
           ipAddress={ipAddress}
-          port={port}
+          wsPort={wsPort}
           onIpAddressChange={setIpAddress}
-          onPortChange={setPort}
+          onWsPortChange={setWsPort}
           sensorData={sensorData}
           isConnected={isConnected}
           onConnect={handleConnect}
           onDisconnect={disconnect}
           packetsSent={packetsSent}
           connectionState={connectionState}
-          latency={latency}
+          connectionQuality={connectionQuality}
           transportMode={transportMode}
+          isFallbackActive={isFallbackActive}
           onTransportModeChange={handleTransportModeChange}
+          orientationMode={orientationMode}
+          onOrientationModeChange={setOrientationMode}
+          precision={precision}
+          onPrecisionChange={setPrecision}
+          sampleMode={sampleMode}
+          onSampleModeChange={setSampleMode}
+          redundancy={redundancy}
+          onRedundancyChange={setRedundancy}
+          redundancyStats={redundancyStats}
           discoveredServer={discoveredServer}
+          discoveredServers={servers}
+          onSelectServer={selectServer}
+          savedServers={savedServers}
+          onSelectSavedServer={handleSelectSavedServer}
+          onForgetSavedServer={forgetServer}
+          autoConnect={autoConnect}
+          onAutoConnectChange={setAutoConnect}
           onScanQRCode={handleOpenQRScanner}
+          onOpenSettings={handleOpenSettings}
           onRequestCalibration={handleRequestCalibration}
         />
+        <RecordingPanel
+          recordings={recordings}
+          activeRecording={activeRecording}
+          isConnected={isConnected}
+          onStartRecording={handleStartRecording}
+          onStopRecording={stopRecording}
+          onDeleteRecording={deleteRecording}
+          replayId={replayId}
+          isReplaying={isReplaying}
+          replaySpeed={replaySpeed}
+          replayLoop={replayLoop}
+          onPlayRecording={handlePlayRecording}
+          onStopReplay={handleStopReplay}
+          onReplaySpeedChange={handleReplaySpeedChange}
+          onReplayLoopChange={handleReplayLoopChange}
+        />
       </ScrollView>
       <QRScanner
         isVisible={isQRScannerVisible}
         onClose={handleCloseQRScanner}
         onScan={handleQRScan}
+        instructions={qrScannerNotice}
       />
     </>
   );
@@ -123,5 +412,6 @@ const styles = StyleSheet.create({
   },
   contentContainer: {
     flexGrow: 1,
+    gap: 14,
   },
 });
@@ -0,0 +1,384 @@
+import { useCallback, useMemo } from 'react';
+import { Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useSettings } from '@/hooks/useSettings';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  HEARTBEAT_SETTING_LIMITS,
+  SETTING_LIMITS,
+  type HeartbeatSettings,
+  type MotionSource,
+  type SettingLimits,
+} from '@/utils/settings';
+
+type TransportMode = 'udp' | 'websocket';
+
+interface Palette {
+  pageBackground: string;
+  cardBackground: string;
+  cardBackgroundSecondary: string;
+  border: string;
+  textPrimary: string;
+  textSecondary: string;
+  accentBlue: string;
+}
+
+const TRANSPORT_OPTIONS: { value: TransportMode; label: string }[] = [
+  { value: 'udp', label: 'Auto (UDP)' },
+  { value: 'websocket', label: 'Manual (WS)' },
+];
+
+const MOTION_SOURCE_OPTIONS: { value: MotionSource; label: string }[] = [
+  { value: 'device', label: 'Phone sensors' },
+  { value: 'synthetic', label: 'Simulated swings' },
+];
+
+const HEARTBEAT_ROWS: { key: keyof HeartbeatSettings; label: string; unit: string; hint: string }[] = [
+  { key: 'streamingIntervalMs', label: 'Interval while streaming', unit: 'ms', hint: 'How often the link is probed during play.' },
+  { key: 'idleMinIntervalMs', label: 'Idle interval (start)', unit: 'ms', hint: 'First probe interval once motion data stops.' },
+  { key: 'idleMaxIntervalMs', label: 'Idle interval (max)', unit: 'ms', hint: 'Idle probes double up to this interval.' },
+  { key: 'streamingTimeoutMs', label: 'Timeout while streaming', unit: 'ms', hint: 'Silence before the link is reconnected.' },
+  { key: 'idleTimeoutMs', label: 'Idle timeout', unit: 'ms', hint: 'Silence before an idle link is reconnected.' },
+  { key: 'suspectAfterMissed', label: 'Unstable after', unit: 'missed', hint: 'Unanswered heartbeats before the link shows as unstable.' },
+];
+
+export default function SettingsScreen() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { settings, isLoaded, updateSettings, resetSettings } = useSettings();
+
+  const palette = useMemo<Palette>(
+    () =>
+      isDark
+        ? {
+            pageBackground: '#070B10',
+            cardBackground: '#121922',
+            cardBackgroundSecondary: '#182331',
+            border: '#28384B',
+            textPrimary: '#F5F8FC',
+            textSecondary: '#8FA1B8',
+            accentBlue: '#0A84FF',
+          }
+        : {
+            pageBackground: '#F3F7FB',
+            cardBackground: '#FFFFFF',
+            cardBackgroundSecondary: '#E9F1F9',
+            border: '#D3DFEB',
+            textPrimary: '#0C1621',
+            textSecondary: '#5B6D82',
+            accentBlue: '#006FE5',
+          },
+    [isDark],
+  );
+
+  const handleTransportChange = useCallback(
+    (mode: TransportMode) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      updateSettings({ defaultTransport: mode });
+    },
+    [updateSettings],
+  );
+
+  const handleMotionSourceChange = useCallback(
+    (motionSource: MotionSource) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      updateSettings({ motionSource });
+    },
+    [updateSettings],
+  );
+
+  const handleReset = useCallback(() => {
+    if (Platform.OS === 'ios') {
+      void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    resetSettings();
+  }, [resetSettings]);
+
+  const sensorRate = Math.round(1000 / settings.sensorUpdateIntervalMs);
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: palette.pageBackground }]}
+      contentContainerStyle={[
+        styles.contentContainer,
+        { paddingTop: insets.top + 16, paddingBottom: insets.bottom + 16 },
+      ]}
+      contentInsetAdjustmentBehavior="automatic"
+      showsVerticalScrollIndicator={false}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} hitSlop={8} activeOpacity={0.7}>
+          <Ionicons name="chevron-back" size={28} color={palette.accentBlue} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: palette.textPrimary }]}>Settings</Text>
+      </View>
+
+      <View style={[styles.card, { backgroundColor: palette.cardBackground, borderColor: palette.border }]}>
+        <Text style={[styles.cardTitle, { color: palette.textPrimary }]}>Streaming</Text>
+
+        <SettingSelector
+          label="Default transport"
+          value={settings.defaultTransport}
+          options={TRANSPORT_OPTIONS}
+          palette={palette}
+          disabled={!isLoaded}
+          onChange={handleTransportChange}
+        />
+        <SettingSelector
+          label="Motion source"
+          value={settings.motionSource}
+          options={MOTION_SOURCE_OPTIONS}
+          hint={
+            settings.motionSource === 'synthetic'
+              ? 'Streams a scripted loop of swings with sensor noise instead of the phone\'s motion.'
+              : 'Use simulated swings on simulators and web builds, which have no motion sensors.'
+          }
+          palette={palette}
+          disabled={!isLoaded}
+          onChange={handleMotionSourceChange}
+        />
+
+        <SettingStepper
+          label="Sensor interval"
+          value={settings.sensorUpdateIntervalMs}
+          unit="ms"
+          hint={`Motion is sampled about ${sensorRate} times per second.`}
+          limits={SETTING_LIMITS.sensorUpdateIntervalMs}
+          palette={palette}
+          disabled={!isLoaded}
+          onChange={(value) => updateSettings({ sensorUpdateIntervalMs: value })}
+        />
+        <SettingStepper
+          label="Send throttle"
+          value={settings.sendThrottleIntervalMs}
+          unit="ms"
+          hint="Minimum time between packets sent to the game."
+          limits={SETTING_LIMITS.sendThrottleIntervalMs}
+          palette={palette}
+          disabled={!isLoaded}
+          onChange={(value) => updateSettings({ sendThrottleIntervalMs: value })}
+        />
+      </View>
+
+      <View style={[styles.card, { backgroundColor: palette.cardBackground, borderColor: palette.border }]}>
+        <Text style={[styles.cardTitle, { color: palette.textPrimary }]}>UDP Heartbeat</Text>
+        {HEARTBEAT_ROWS.map((row) => (
+          <SettingStepper
+            key={row.key}
+            label={row.label}
+            value={settings.heartbeat[row.key]}
+            unit={row.unit}
+            hint={row.hint}
+            limits={HEARTBEAT_SETTING_LIMITS[row.key]}
+            palette={palette}
+            disabled={!isLoaded}
+            onChange={(value) => updateSettings({ heartbeat: { [row.key]: value } })}
+          />
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.resetButton, { backgroundColor: palette.cardBackgroundSecondary }]}
+        onPress={handleReset}
+        activeOpacity={0.84}
+        disabled={!isLoaded}
+      >
+        <Text style={[styles.resetButtonText, { color: palette.accentBlue }]}>Reset to Defaults</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+interface SettingSelectorProps<T extends string> {
+  label: string;
+  value: T;
+  options: { value: T; label: string }[];
+  hint?: string;
+  palette: Palette;
+  disabled: boolean;
+  onChange: (value: T) => void;
+}
+
+function SettingSelector<T extends string>({
+  label,
+  value,
+  options,
+  hint,
+  palette,
+  disabled,
+  onChange,
+}: SettingSelectorProps<T>) {
+  return (
+    <View style={styles.settingGroup}>
+      <Text style={[styles.settingLabel, { color: palette.textSecondary }]}>{label}</Text>
+      <View style={[styles.selector, { backgroundColor: palette.cardBackgroundSecondary }]}>
+        {options.map((option) => {
+          const isSelected = value === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.selectorButton, isSelected && { backgroundColor: palette.accentBlue }]}
+              onPress={() => onChange(option.value)}
+              activeOpacity={0.82}
+              disabled={disabled}
+            >
+              <Text style={[styles.selectorButtonText, { color: isSelected ? '#FFFFFF' : palette.textPrimary }]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {hint !== undefined && <Text style={[styles.settingHint, { color: palette.textSecondary }]}>{hint}</Text>}
+    </View>
+  );
+}
+
+interface SettingStepperProps {
+  label: string;
+  value: number;
+  unit: string;
+  hint: string;
+  limits: SettingLimits;
+  palette: Palette;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+function SettingStepper({ label, value, unit, hint, limits, palette, disabled, onChange }: SettingStepperProps) {
+  const step = (direction: -1 | 1) => {
+    const next = Math.min(limits.max, Math.max(limits.min, value + direction * limits.step));
+    if (next === value) {
+      return;
+    }
+    if (Platform.OS === 'ios') {
+      void Haptics.selectionAsync();
+    }
+    onChange(next);
+  };
+
+  return (
+    <View style={styles.settingGroup}>
+      <Text style={[styles.settingLabel, { color: palette.textSecondary }]}>{label}</Text>
+      <View style={[styles.stepper, { backgroundColor: palette.cardBackgroundSecondary }]}>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => step(-1)}
+          activeOpacity={0.7}
+          disabled={disabled || value <= limits.min}
+        >
+          <Ionicons name="remove" size={20} color={value <= limits.min ? palette.textSecondary : palette.accentBlue} />
+        </TouchableOpacity>
+        <Text style={[styles.stepperValue, { color: palette.textPrimary }]}>
+          {value} {unit}
+        </Text>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => step(1)}
+          activeOpacity={0.7}
+          disabled={disabled || value >= limits.max}
+        >
+          <Ionicons name="add" size={20} color={value >= limits.max ? palette.textSecondary : palette.accentBlue} />
+        </TouchableOpacity>
+      </View>
+      <Text style={[styles.settingHint, { color: palette.textSecondary }]}>{hint}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    flexGrow: 1,
+    paddingHorizontal: 16,
+    gap: 14,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 30,
+    lineHeight: 34,
+    fontWeight: '800',
+  },
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    padding: 16,
+    gap: 14,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  settingGroup: {
+    gap: 6,
+  },
+  settingLabel: {
+    fontSize: 12,
+    letterSpacing: 0.5,
+    textTransform: 'uppercase',
+    fontWeight: '600',
+  },
+  settingHint: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  selector: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    gap: 4,
+  },
+  selectorButton: {
+    flex: 1,
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  selectorButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 4,
+  },
+  stepperButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  stepperValue: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  resetButton: {
+    borderRadius: 12,
+    height: 50,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  resetButtonText: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+});
@@ -22,37 +22,81 @@ import Animated, {
 import * as Haptics from 'expo-haptics';
 import { Ionicons } from '@expo/vector-icons';
 
-import type { SensorData } from '@/hooks/useSensorStream';
-
-export type ConnectionState = 'idle' | 'connecting' | 'open' | 'closing' | 'closed' | 'error';
+import type { DiscoveredServer } from '@/hooks/useDiscovery';
+import type { SavedServer } from '@/hooks/useSavedServers';
+import type {
+  OrientationMode,
+  PacketPrecision,
+  RedundancyStats,
+  SampleMode,
+  SensorData,
+} from '@/hooks/useSensorStream';
+import type { ConnectionQuality } from '@/utils/connectionQuality';
+
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'degraded' | 'closing' | 'closed' | 'error';
 export type TransportMode = 'udp' | 'websocket';
 
-export interface DiscoveredServer {
-  ip: string;
-  port: number;
-}
-
 const FALLBACK_EULER = { alpha: 0, beta: 0, gamma: 0 };
 const FALLBACK_VEC3 = { x: 0, y: 0, z: 0 };
 const CALIBRATION_HOLD_DURATION_MS = 3000;
 const CALIBRATION_PROGRESS_TICK_MS = 90;
+const ORIENTATION_OPTIONS: SelectorOption<OrientationMode>[] = [
+  { value: 'euler', label: 'Euler' },
+  { value: 'quaternion', label: 'Quat' },
+];
+const PRECISION_OPTIONS: SelectorOption<PacketPrecision>[] = [
+  { value: 'full', label: 'Full' },
+  { value: 'compact', label: 'Compact' },
+];
+const SAMPLE_MODE_OPTIONS: SelectorOption<SampleMode>[] = [
+  { value: 'latest', label: 'Latest' },
+  { value: 'batched', label: 'Batched' },
+];
+const REDUNDANCY_OPTIONS: SelectorOption<string>[] = [
+  { value: '0', label: 'Off' },
+  { value: '1', label: '1' },
+  { value: '2', label: '2' },
+  { value: '4', label: '4' },
+];
+const AUTO_CONNECT_OPTIONS: SelectorOption<string>[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'on', label: 'On' },
+];
 
 interface ConnectionPanelProps {
   ipAddress: string;
-  port: string;
+  wsPort: string;
   onIpAddressChange: (value: string) => void;
-  onPortChange: (value: string) => void;
+  onWsPortChange: (value: string) => void;
   sensorData: SensorData;
   isConnected: boolean;
   onConnect: (wsUrl: string) => void;
   onDisconnect: () => void;
   packetsSent: number;
   connectionState: ConnectionState;
-  latency?: number;
+  connectionQuality?: ConnectionQuality;
   transportMode: TransportMode;
+  isFallbackActive?: boolean;
   onTransportModeChange: (mode: TransportMode) => void;
+  orientationMode: OrientationMode;
+  onOrientationModeChange: (mode: OrientationMode) => void;
+  precision: PacketPrecision;
+  onPrecisionChange: (precision: PacketPrecision) => void;
+  sampleMode: SampleMode;
+  onSampleModeChange: (mode: SampleMode) => void;
+  redundancy: number;
+  onRedundancyChange: (redundancy: number) => void;
+  redundancyStats?: RedundancyStats;
   discoveredServer: DiscoveredServer | null;
+  discoveredServers: DiscoveredServer[];
+  onSelectServer: (server: DiscoveredServer) => void;
+  savedServers: SavedServer[];
+  onSelectSavedServer: (server: SavedServer) => void;
+  onForgetSavedServer: (server: SavedServer) => void;
+  autoConnect: boolean;
+  onAutoConnectChange: (enabled: boolean) => void;
   onScanQRCode?: () => void;
+  onOpenSettings?: () => void;
   onRequestCalibration?: () => boolean | Promise<boolean>;
 }
 
@@ -79,17 +123,35 @@ interface ConnectionControlSectionProps {
   palette: Palette;
   header: ConnectionHeaderViewModel;
   ipAddress: string;
-  port: string;
+  wsPort: string;
   onIpAddressChange: (value: string) => void;
-  onPortChange: (value: string) => void;
+  onWsPortChange: (value: string) => void;
   isConnected: boolean;
   packetsSent: number;
-  latency?: number;
+  connectionQuality?: ConnectionQuality;
   transportMode: TransportMode;
+  isFallbackActive: boolean;
+  orientationMode: OrientationMode;
+  precision: PacketPrecision;
+  sampleMode: SampleMode;
+  redundancy: number;
+  redundancyStats: RedundancyStats | undefined;
   discoveredServer: DiscoveredServer | null;
+  discoveredServers: DiscoveredServer[];
+  savedServers: SavedServer[];
+  autoConnect: boolean;
   onToggleConnection: () => void;
+  onSelectServer: (server: DiscoveredServer) => void;
+  onSelectSavedServer: (server: SavedServer) => void;
+  onForgetSavedServer: (server: SavedServer) => void;
+  onAutoConnectChange: (value: string) => void;
   onTransportChange: (mode: TransportMode) => void;
+  onOrientationChange: (mode: OrientationMode) => void;
+  onPrecisionChange: (precision: PacketPrecision) => void;
+  onSampleModeChange: (mode: SampleMode) => void;
+  onRedundancyChange: (redundancy: string) => void;
   onScanQRCode?: () => void;
+  onOpenSettings?: () => void;
   canRequestCalibration: boolean;
   calibrationButtonText: string;
   calibrationStatusText: string;
@@ -108,20 +170,38 @@ interface TelemetrySectionProps {
 
 export function ConnectionPanel({
   ipAddress,
-  port,
+  wsPort,
   onIpAddressChange,
-  onPortChange,
+  onWsPortChange,
   sensorData,
   isConnected,
   onConnect,
   onDisconnect,
   packetsSent,
   connectionState,
-  latency,
+  connectionQuality,
   transportMode,
+  isFallbackActive = false,
   onTransportModeChange,
+  orientationMode,
+  onOrientationModeChange,
+  precision,
+  onPrecisionChange,
+  sampleMode,
+  onSampleModeChange,
+  redundancy,
+  onRedundancyChange,
+  redundancyStats,
   discoveredServer,
+  discoveredServers,
+  onSelectServer,
+  savedServers,
+  onSelectSavedServer,
+  onForgetSavedServer,
+  autoConnect,
+  onAutoConnectChange,
   onScanQRCode,
+  onOpenSettings,
   onRequestCalibration,
 }: ConnectionPanelProps) {
   const colorScheme = useColorScheme();
@@ -190,6 +270,12 @@ export function ConnectionPanel({
           statusText: 'Live Tracking',
           pulseAnimation: false,
         };
+      case 'degraded':
+        return {
+          statusColor: palette.accentOrange,
+          statusText: 'Link Unstable',
+          pulseAnimation: true,
+        };
       case 'error':
       case 'closing':
         return {
@@ -214,12 +300,12 @@ export function ConnectionPanel({
     if (isConnected) {
       onDisconnect();
     } else if (transportMode === 'udp' && discoveredServer) {
-      onConnect(`udp://${discoveredServer.ip}:${discoveredServer.port}`);
+      onConnect(`udp://${discoveredServer.ip}:${discoveredServer.udpPort}`);
     } else {
-      const wsUrl = `ws://${ipAddress}:${port}`;
+      const wsUrl = `ws://${ipAddress}:${wsPort}`;
       onConnect(wsUrl);
     }
-  }, [isConnected, ipAddress, port, onConnect, onDisconnect, transportMode, discoveredServer]);
+  }, [isConnected, ipAddress, wsPort, onConnect, onDisconnect, transportMode, discoveredServer]);
 
   const handleTransportChange = useCallback(
     (mode: TransportMode) => {
@@ -231,6 +317,86 @@ export function ConnectionPanel({
     [onTransportModeChange],
   );
 
+  const handleOrientationChange = useCallback(
+    (mode: OrientationMode) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      onOrientationModeChange(mode);
+    },
+    [onOrientationModeChange],
+  );
+
+  const handlePrecisionChange = useCallback(
+    (nextPrecision: PacketPrecision) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      onPrecisionChange(nextPrecision);
+    },
+    [onPrecisionChange],
+  );
+
+  const handleSampleModeChange = useCallback(
+    (mode: SampleMode) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      onSampleModeChange(mode);
+    },
+    [onSampleModeChange],
+  );
+
+  const handleRedundancyChange = useCallback(
+    (value: string) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      onRedundancyChange(Number(value));
+    },
+    [onRedundancyChange],
+  );
+
+  const handleSelectServer = useCallback(
+    (server: DiscoveredServer) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.selectionAsync();
+      }
+      onSelectServer(server);
+    },
+    [onSelectServer],
+  );
+
+  const handleSelectSavedServer = useCallback(
+    (server: SavedServer) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      onSelectSavedServer(server);
+    },
+    [onSelectSavedServer],
+  );
+
+  const handleForgetSavedServer = useCallback(
+    (server: SavedServer) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.selectionAsync();
+      }
+      onForgetSavedServer(server);
+    },
+    [onForgetSavedServer],
+  );
+
+  const handleAutoConnectChange = useCallback(
+    (value: string) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      onAutoConnectChange(value === 'on');
+    },
+    [onAutoConnectChange],
+  );
+
   const clearCalibrationTimers = useCallback(() => {
     if (holdTimeoutRef.current) {
       clearTimeout(holdTimeoutRef.current);
@@ -417,17 +583,35 @@ export function ConnectionPanel({
         palette={palette}
         header={header}
         ipAddress={ipAddress}
-        port={port}
+        wsPort={wsPort}
         onIpAddressChange={onIpAddressChange}
-        onPortChange={onPortChange}
+        onWsPortChange={onWsPortChange}
         isConnected={isConnected}
         packetsSent={packetsSent}
-        latency={latency}
+        connectionQuality={connectionQuality}
         transportMode={transportMode}
+        isFallbackActive={isFallbackActive}
+        orientationMode={orientationMode}
+        precision={precision}
+        sampleMode={sampleMode}
+        redundancy={redundancy}
+        redundancyStats={redundancyStats}
         discoveredServer={discoveredServer}
+        discoveredServers={discoveredServers}
+        savedServers={savedServers}
+        autoConnect={autoConnect}
         onToggleConnection={handleToggleConnection}
+        onSelectServer={handleSelectServer}
+        onSelectSavedServer={handleSelectSavedServer}
+        onForgetSavedServer={handleForgetSavedServer}
+        onAutoConnectChange={handleAutoConnectChange}
         onTransportChange={handleTransportChange}
+        onOrientationChange={handleOrientationChange}
+        onPrecisionChange={handlePrecisionChange}
+        onSampleModeChange={handleSampleModeChange}
+        onRedundancyChange={handleRedundancyChange}
         onScanQRCode={onScanQRCode}
+        onOpenSettings={onOpenSettings}
         canRequestCalibration={canRequestCalibration}
         calibrationButtonText={calibrationButtonText}
         calibrationStatusText={calibrationStatusText}
@@ -446,17 +630,35 @@ const ConnectionControlSection = memo(function ConnectionControlSection({
   palette,
   header,
   ipAddress,
-  port,
+  wsPort,
   onIpAddressChange,
-  onPortChange,
+  onWsPortChange,
   isConnected,
   packetsSent,
-  latency,
+  connectionQuality,
   transportMode,
+  isFallbackActive,
+  orientationMode,
+  precision,
+  sampleMode,
+  redundancy,
+  redundancyStats,
   discoveredServer,
+  discoveredServers,
+  savedServers,
+  autoConnect,
   onToggleConnection,
+  onSelectServer,
+  onSelectSavedServer,
+  onForgetSavedServer,
+  onAutoConnectChange,
   onTransportChange,
+  onOrientationChange,
+  onPrecisionChange,
+  onSampleModeChange,
+  onRedundancyChange,
   onScanQRCode,
+  onOpenSettings,
   canRequestCalibration,
   calibrationButtonText,
   calibrationStatusText,
@@ -482,6 +684,11 @@ const ConnectionControlSection = memo(function ConnectionControlSection({
   return (
     <>
       <View style={[styles.heroCard, { backgroundColor: palette.cardBackground, borderColor: palette.border }]}>
+        {onOpenSettings && (
+          <TouchableOpacity style={styles.settingsButton} onPress={onOpenSettings} hitSlop={8} activeOpacity={0.7}>
+            <Ionicons name="settings-outline" size={22} color={palette.textSecondary} />
+          </TouchableOpacity>
+        )}
         <Text style={[styles.heroLabel, { color: palette.textSecondary }]}>MOTION TRAINING</Text>
         <Text style={[styles.heroTitle, { color: palette.textPrimary }]}>WeSquash Fitness Controller</Text>
         <View style={styles.statusRow}>
@@ -541,12 +748,86 @@ const ConnectionControlSection = memo(function ConnectionControlSection({
           </TouchableOpacity>
         </View>
 
-        {isUDPDiscovered && discoveredServer && (
-          <View style={[styles.discoveryBadge, { backgroundColor: palette.accentGreen }]}>
-            <Ionicons name="flash" size={16} color="#FFFFFF" />
-            <Text style={styles.discoveryBadgeText}>
-              Auto-discovered: {discoveredServer.ip}:{discoveredServer.port}
+        <View style={styles.optionRow}>
+          <OptionSelector
+            label="Orientation"
+            palette={palette}
+            value={orientationMode}
+            options={ORIENTATION_OPTIONS}
+            onChange={onOrientationChange}
+            disabled={isConnected}
+          />
+          <OptionSelector
+            label="Precision"
+            palette={palette}
+            value={precision}
+            options={PRECISION_OPTIONS}
+            onChange={onPrecisionChange}
+            disabled={isConnected}
+          />
+        </View>
+
+        <View style={styles.optionRow}>
+          <OptionSelector
+            label="Samples"
+            palette={palette}
+            value={sampleMode}
+            options={SAMPLE_MODE_OPTIONS}
+            onChange={onSampleModeChange}
+            disabled={isConnected}
+          />
+          <OptionSelector
+            label="Redundancy"
+            palette={palette}
+            value={String(redundancy)}
+            options={REDUNDANCY_OPTIONS}
+            onChange={onRedundancyChange}
+            disabled={isConnected}
+          />
+        </View>
+
+        {!isConnected && savedServers.length > 0 && (
+          <View style={styles.serverList}>
+            <Text style={[styles.inputLabel, { color: palette.textSecondary }]}>Recent courts</Text>
+            {savedServers.map((server) => (
+              <SavedServerRow
+                key={`${server.ip}:${server.udpPort}`}
+                server={server}
+                palette={palette}
+                onSelect={onSelectSavedServer}
+                onForget={onForgetSavedServer}
+              />
+            ))}
+            <OptionSelector
+              label="Auto-connect to last court"
+              palette={palette}
+              value={autoConnect ? 'on' : 'off'}
+              options={AUTO_CONNECT_OPTIONS}
+              onChange={onAutoConnectChange}
+              disabled={isConnected}
+            />
+          </View>
+        )}
+
+        {transportMode === 'udp' && discoveredServers.length > 0 && (
+          <View style={styles.serverList}>
+            <Text style={[styles.inputLabel, { color: palette.textSecondary }]}>
+              Courts on this network ({discoveredServers.length})
             </Text>
+            {discoveredServers.map((server) => (
+              <DiscoveredServerRow
+                key={`${server.ip}:${server.udpPort}`}
+                server={server}
+                palette={palette}
+                isSelected={
+                  discoveredServer !== null &&
+                  discoveredServer.ip === server.ip &&
+                  discoveredServer.udpPort === server.udpPort
+                }
+                disabled={isConnected}
+                onSelect={onSelectServer}
+              />
+            ))}
           </View>
         )}
 
@@ -601,8 +882,8 @@ const ConnectionControlSection = memo(function ConnectionControlSection({
                 ]}
                 placeholder="9080"
                 placeholderTextColor={palette.textSecondary}
-                value={port}
-                onChangeText={onPortChange}
+                value={wsPort}
+                onChangeText={onWsPortChange}
                 keyboardType="number-pad"
                 editable={!isConnected}
                 selectionColor={palette.accentBlue}
@@ -628,11 +909,50 @@ const ConnectionControlSection = memo(function ConnectionControlSection({
           <Text style={[styles.cardTitle, { color: palette.textPrimary }]}>Live Stats</Text>
           <View style={styles.statsRow}>
             <StatPuck label="Packets" value={packetsSent.toString()} color={palette.accentBlue} />
-            {latency !== undefined && (
-              <StatPuck label="Latency" value={`${latency}ms`} color={palette.accentGreen} />
+            <StatPuck
+              label={isFallbackActive ? 'Fallback' : 'Mode'}
+              value={transportMode === 'udp' && !isFallbackActive ? 'UDP' : 'WS'}
+              color={palette.accentOrange}
+            />
+            {redundancyStats !== undefined && redundancyStats.depth > 0 && (
+              <StatPuck
+                label="Recovered"
+                value={redundancyStats.recoveredSamples !== undefined ? redundancyStats.recoveredSamples.toString() : '--'}
+                color={palette.accentGreen}
+              />
             )}
-            <StatPuck label="Mode" value={transportMode === 'udp' ? 'UDP' : 'WS'} color={palette.accentOrange} />
           </View>
+          {connectionQuality !== undefined && (
+            <>
+              <View style={styles.statsRow}>
+                <StatPuck label="RTT min" value={formatMs(connectionQuality.rttMin)} color={palette.accentGreen} />
+                <StatPuck label="RTT p50" value={formatMs(connectionQuality.rttMedian)} color={palette.accentGreen} />
+                <StatPuck label="RTT p95" value={formatMs(connectionQuality.rttP95)} color={palette.accentGreen} />
+              </View>
+              <View style={styles.statsRow}>
+                <StatPuck label="Jitter" value={formatMs(connectionQuality.jitter)} color={palette.accentBlue} />
+                <StatPuck
+                  label="HB loss"
+                  value={
+                    connectionQuality.heartbeatLossRate !== undefined
+                      ? `${Math.round(connectionQuality.heartbeatLossRate * 100)}%`
+                      : '--'
+                  }
+                  color={palette.accentOrange}
+                />
+                <StatPuck
+                  label="Send/s"
+                  value={Math.round(connectionQuality.sendRate).toString()}
+                  color={palette.accentBlue}
+                />
+                <StatPuck
+                  label="Failed"
+                  value={connectionQuality.sendFailures.toString()}
+                  color={palette.accentOrange}
+                />
+              </View>
+            </>
+          )}
         </Animated.View>
       )}
 
@@ -813,6 +1133,161 @@ const SensorMetric = memo(function SensorMetric({
   );
 });
 
+interface SelectorOption<T extends string> {
+  value: T;
+  label: string;
+}
+
+interface OptionSelectorProps<T extends string> {
+  label: string;
+  palette: Palette;
+  value: T;
+  options: SelectorOption<T>[];
+  onChange: (value: T) => void;
+  disabled: boolean;
+}
+
+function OptionSelector<T extends string>({
+  label,
+  palette,
+  value,
+  options,
+  onChange,
+  disabled,
+}: OptionSelectorProps<T>) {
+  return (
+    <View style={[styles.inputContainer, { flex: 1 }]}>
+      <Text style={[styles.inputLabel, { color: palette.textSecondary }]}>{label}</Text>
+      <View style={[styles.transportSelector, { backgroundColor: palette.cardBackgroundSecondary }]}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.transportButton,
+              value === option.value && { backgroundColor: palette.accentBlue },
+            ]}
+            onPress={() => onChange(option.value)}
+            activeOpacity={0.82}
+            disabled={disabled}
+          >
+            <Text
+              style={[
+                styles.transportButtonText,
+                { color: value === option.value ? '#FFFFFF' : palette.textPrimary },
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+interface DiscoveredServerRowProps {
+  server: DiscoveredServer;
+  palette: Palette;
+  isSelected: boolean;
+  disabled: boolean;
+  onSelect: (server: DiscoveredServer) => void;
+}
+
+function formatMs(value: number | undefined): string {
+  return value !== undefined ? `${Math.round(value)}ms` : '--';
+}
+
+function formatLastSeen(lastSeen: number): string {
+  const seconds = Math.max(0, Math.round((Date.now() - lastSeen) / 1000));
+  return seconds < 1 ? 'just now' : `${seconds}s ago`;
+}
+
+function formatLastUsed(lastUsedAt: number): string {
+  const minutes = Math.max(0, Math.round((Date.now() - lastUsedAt) / 60000));
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes}m ago`;
+  }
+  const hours = Math.round(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : `${Math.round(hours / 24)}d ago`;
+}
+
+const DiscoveredServerRow = memo(function DiscoveredServerRow({
+  server,
+  palette,
+  isSelected,
+  disabled,
+  onSelect,
+}: DiscoveredServerRowProps) {
+  return (
+    <TouchableOpacity
+      style={[
+        styles.serverRow,
+        {
+          backgroundColor: isSelected ? palette.accentGreen : palette.cardBackgroundSecondary,
+          opacity: disabled && !isSelected ? 0.6 : 1,
+        },
+      ]}
+      onPress={() => onSelect(server)}
+      activeOpacity={0.82}
+      disabled={disabled}
+    >
+      <Ionicons
+        name={isSelected ? 'checkmark-circle' : 'ellipse-outline'}
+        size={18}
+        color={isSelected ? '#FFFFFF' : palette.textSecondary}
+      />
+      <View style={styles.serverRowBody}>
+        <Text style={[styles.serverRowTitle, { color: isSelected ? '#FFFFFF' : palette.textPrimary }]}>
+          {server.name ?? `${server.ip}:${server.udpPort}`}
+        </Text>
+        <Text style={[styles.serverRowMeta, { color: isSelected ? '#FFFFFF' : palette.textSecondary }]}>
+          {server.name ? `${server.ip}:${server.udpPort} · ` : ''}v{server.version} · {formatLastSeen(server.lastSeen)}
+        </Text>
+      </View>
+      <Text style={[styles.serverRowRtt, { color: isSelected ? '#FFFFFF' : palette.accentBlue }]}>
+        {server.rtt !== undefined ? `${server.rtt}ms` : '--'}
+      </Text>
+    </TouchableOpacity>
+  );
+});
+
+interface SavedServerRowProps {
+  server: SavedServer;
+  palette: Palette;
+  onSelect: (server: SavedServer) => void;
+  onForget: (server: SavedServer) => void;
+}
+
+const SavedServerRow = memo(function SavedServerRow({ server, palette, onSelect, onForget }: SavedServerRowProps) {
+  const port = server.lastTransport === 'udp' ? server.udpPort : server.wsPort;
+  const needsPairing = server.requiresPairing && server.lastTransport === 'udp';
+  return (
+    <TouchableOpacity
+      style={[styles.serverRow, { backgroundColor: palette.cardBackgroundSecondary }]}
+      onPress={() => onSelect(server)}
+      activeOpacity={0.82}
+    >
+      <Ionicons name={needsPairing ? 'qr-code-outline' : 'time-outline'} size={18} color={palette.accentBlue} />
+      <View style={styles.serverRowBody}>
+        <Text style={[styles.serverRowTitle, { color: palette.textPrimary }]}>
+          {server.name ?? `${server.ip}:${port}`}
+        </Text>
+        <Text style={[styles.serverRowMeta, { color: palette.textSecondary }]}>
+          {server.name ? `${server.ip}:${port} · ` : ''}
+          {server.lastTransport === 'udp' ? 'UDP' : 'WS'} · {formatLastUsed(server.lastUsedAt)}
+          {needsPairing ? ' · Scan QR to pair' : ''}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => onForget(server)} hitSlop={8} activeOpacity={0.7}>
+        <Ionicons name="close-circle" size={20} color={palette.textSecondary} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+});
+
 interface StatPuckProps {
   label: string;
   value: string;
@@ -855,6 +1330,12 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     gap: 8,
   },
+  settingsButton: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+    zIndex: 1,
+  },
   heroLabel: {
     fontSize: 12,
     letterSpacing: 1,
@@ -909,19 +1390,38 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '700',
   },
-  discoveryBadge: {
+  optionRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  serverList: {
+    gap: 6,
+  },
+  serverRow: {
     borderRadius: 10,
     paddingVertical: 8,
     paddingHorizontal: 12,
     flexDirection: 'row',
     alignItems: 'center',
-    gap: 8,
+    gap: 10,
   },
-  discoveryBadgeText: {
-    color: '#FFFFFF',
+  serverRowBody: {
+    flex: 1,
+    gap: 2,
+  },
+  serverRowTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  serverRowMeta: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  serverRowRtt: {
     fontSize: 13,
     fontWeight: '700',
-    flex: 1,
+    fontVariant: ['tabular-nums'],
   },
   qrButton: {
     borderRadius: 12,
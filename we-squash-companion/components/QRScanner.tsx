@@ -3,16 +3,23 @@ import { CameraView, useCameraPermissions } from 'expo-camera';
 import { StyleSheet, TouchableOpacity, View, Modal } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { ThemedText } from './themed-text';
+import type { ConnectUriError } from '@/utils/connectUri';
 
 interface QRScannerProps {
   isVisible: boolean;
   onClose: () => void;
-  onScan: (data: string) => void;
+  /** Handle a scanned code. Return an error to show it and keep scanning, or null to close. */
+  onScan: (data: string) => ConnectUriError | null;
+  /** Shown under the scan frame in place of the default instructions. */
+  instructions?: string;
 }
 
-export function QRScanner({ isVisible, onClose, onScan }: QRScannerProps) {
+const DEFAULT_INSTRUCTIONS = 'Point camera at the QR code displayed in the game';
+
+export function QRScanner({ isVisible, onClose, onScan, instructions = DEFAULT_INSTRUCTIONS }: QRScannerProps) {
   const [permission, requestPermission] = useCameraPermissions();
   const [scanned, setScanned] = useState(false);
+  const [scanError, setScanError] = useState<ConnectUriError | null>(null);
 
   useEffect(() => {
     if (isVisible && !permission?.granted) {
@@ -23,6 +30,7 @@ export function QRScanner({ isVisible, onClose, onScan }: QRScannerProps) {
   useEffect(() => {
     if (!isVisible) {
       setScanned(false);
+      setScanError(null);
     }
   }, [isVisible]);
 
@@ -30,13 +38,22 @@ export function QRScanner({ isVisible, onClose, onScan }: QRScannerProps) {
     ({ data }: { data: string }) => {
       if (!scanned) {
         setScanned(true);
-        onScan(data);
-        onClose();
+        const error = onScan(data);
+        if (error) {
+          setScanError(error);
+        } else {
+          onClose();
+        }
       }
     },
     [scanned, onScan, onClose]
   );
 
+  const handleScanAgain = useCallback(() => {
+    setScanError(null);
+    setScanned(false);
+  }, []);
+
   if (!permission?.granted) {
     return (
       <Modal visible={isVisible} animationType="slide" transparent={false}>
@@ -84,9 +101,17 @@ export function QRScanner({ isVisible, onClose, onScan }: QRScannerProps) {
                 <View style={[styles.corner, styles.cornerBL]} />
                 <View style={[styles.corner, styles.cornerBR]} />
               </View>
-              <ThemedText style={styles.instructions}>
-                Point camera at the QR code displayed in the game
-              </ThemedText>
+              {scanError ? (
+                <View style={styles.errorContainer}>
+                  <ThemedText style={styles.errorTitle}>Can&apos;t use this code</ThemedText>
+                  <ThemedText style={styles.errorText}>{scanError.message}</ThemedText>
+                  <TouchableOpacity style={styles.button} onPress={handleScanAgain}>
+                    <ThemedText style={styles.buttonText}>Scan Again</ThemedText>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <ThemedText style={styles.instructions}>{instructions}</ThemedText>
+              )}
             </View>
 
             <View style={styles.footer} />
@@ -186,6 +211,26 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 40,
   },
+  errorContainer: {
+    marginTop: 32,
+    marginHorizontal: 32,
+    padding: 20,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+    alignItems: 'center',
+  },
+  errorTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#FF453A',
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
   footer: {
     height: 100,
   },
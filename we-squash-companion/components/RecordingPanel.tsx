@@ -0,0 +1,399 @@
+import { memo, useCallback, useMemo } from 'react';
+import { Platform, StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+import Animated, { FadeIn } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { Ionicons } from '@expo/vector-icons';
+
+import type { ActiveRecording } from '@/hooks/useSensorRecorder';
+import type { RecordingSummary } from '@/utils/recordingFiles';
+
+interface RecordingPanelProps {
+  recordings: RecordingSummary[];
+  activeRecording: ActiveRecording | null;
+  isConnected: boolean;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onDeleteRecording: (id: string) => void;
+  /** Recording selected for replay, if any. */
+  replayId: string | null;
+  isReplaying: boolean;
+  replaySpeed: number;
+  replayLoop: boolean;
+  onPlayRecording: (id: string) => void;
+  onStopReplay: () => void;
+  onReplaySpeedChange: (speed: number) => void;
+  onReplayLoopChange: (loop: boolean) => void;
+}
+
+interface SelectorOption<T> {
+  value: T;
+  label: string;
+}
+
+interface Palette {
+  cardBackground: string;
+  cardBackgroundSecondary: string;
+  border: string;
+  textPrimary: string;
+  textSecondary: string;
+  accentBlue: string;
+  accentRed: string;
+  accentGreen: string;
+}
+
+const REPLAY_SPEED_OPTIONS: SelectorOption<number>[] = [
+  { value: 0.25, label: '¼×' },
+  { value: 0.5, label: '½×' },
+  { value: 1, label: '1×' },
+  { value: 2, label: '2×' },
+  { value: 4, label: '4×' },
+];
+const REPLAY_LOOP_OPTIONS: SelectorOption<boolean>[] = [
+  { value: false, label: 'Once' },
+  { value: true, label: 'Loop' },
+];
+
+export function RecordingPanel({
+  recordings,
+  activeRecording,
+  isConnected,
+  onStartRecording,
+  onStopRecording,
+  onDeleteRecording,
+  replayId,
+  isReplaying,
+  replaySpeed,
+  replayLoop,
+  onPlayRecording,
+  onStopReplay,
+  onReplaySpeedChange,
+  onReplayLoopChange,
+}: RecordingPanelProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  const palette = useMemo<Palette>(
+    () =>
+      isDark
+        ? {
+            cardBackground: '#121922',
+            cardBackgroundSecondary: '#182331',
+            border: '#28384B',
+            textPrimary: '#F5F8FC',
+            textSecondary: '#8FA1B8',
+            accentBlue: '#0A84FF',
+            accentRed: '#FF453A',
+            accentGreen: '#32D74B',
+          }
+        : {
+            cardBackground: '#FFFFFF',
+            cardBackgroundSecondary: '#E9F1F9',
+            border: '#D3DFEB',
+            textPrimary: '#0C1621',
+            textSecondary: '#5B6D82',
+            accentBlue: '#006FE5',
+            accentRed: '#CC2F24',
+            accentGreen: '#1FAD38',
+          },
+    [isDark],
+  );
+
+  const handleToggleRecording = useCallback(() => {
+    if (Platform.OS === 'ios') {
+      void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    if (activeRecording) {
+      onStopRecording();
+    } else {
+      onStartRecording();
+    }
+  }, [activeRecording, onStartRecording, onStopRecording]);
+
+  const handleDeleteRecording = useCallback(
+    (id: string) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.selectionAsync();
+      }
+      onDeleteRecording(id);
+    },
+    [onDeleteRecording],
+  );
+
+  const handleToggleReplay = useCallback(
+    (id: string) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      if (id === replayId) {
+        onStopReplay();
+      } else {
+        onPlayRecording(id);
+      }
+    },
+    [onPlayRecording, onStopReplay, replayId],
+  );
+
+  const handleReplaySpeedChange = useCallback(
+    (speed: number) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      onReplaySpeedChange(speed);
+    },
+    [onReplaySpeedChange],
+  );
+
+  const handleReplayLoopChange = useCallback(
+    (loop: boolean) => {
+      if (Platform.OS === 'ios') {
+        void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+      onReplayLoopChange(loop);
+    },
+    [onReplayLoopChange],
+  );
+
+  const statusText = activeRecording
+    ? `REC ${formatDuration(Date.now() - activeRecording.startedAt)} · ${activeRecording.sampleCount} samples`
+    : isConnected
+      ? 'Captures every motion sample sent to the game, plus connection changes.'
+      : 'Samples are captured while a session is live.';
+  const replayStatusText = isReplaying
+    ? 'Streaming the recording to the game in place of the sensors.'
+    : isConnected
+      ? 'Replay finished. Tap play to run it again.'
+      : 'Replay starts when a session is live.';
+
+  return (
+    <View style={[styles.card, { backgroundColor: palette.cardBackground, borderColor: palette.border }]}>
+      <Text style={[styles.cardTitle, { color: palette.textPrimary }]}>Session Recorder</Text>
+      <Text style={[styles.statusText, { color: activeRecording ? palette.accentRed : palette.textSecondary }]}>
+        {statusText}
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.actionButton, { backgroundColor: activeRecording ? palette.accentRed : palette.accentBlue }]}
+        onPress={handleToggleRecording}
+        activeOpacity={0.84}
+      >
+        <Ionicons name={activeRecording ? 'stop' : 'radio-button-on'} size={18} color="#FFFFFF" />
+        <Text style={styles.actionButtonText}>{activeRecording ? 'Stop Recording' : 'Start Recording'}</Text>
+      </TouchableOpacity>
+
+      {replayId !== null && (
+        <Animated.View
+          entering={FadeIn.duration(250)}
+          style={[styles.replayControls, { backgroundColor: palette.cardBackgroundSecondary }]}
+        >
+          <Text style={[styles.statusText, { color: isReplaying ? palette.accentGreen : palette.textSecondary }]}>
+            {replayStatusText}
+          </Text>
+          <ChipSelector
+            label="Speed"
+            palette={palette}
+            value={replaySpeed}
+            options={REPLAY_SPEED_OPTIONS}
+            onChange={handleReplaySpeedChange}
+          />
+          <ChipSelector
+            label="Playback"
+            palette={palette}
+            value={replayLoop}
+            options={REPLAY_LOOP_OPTIONS}
+            onChange={handleReplayLoopChange}
+          />
+        </Animated.View>
+      )}
+
+      {recordings.length > 0 && (
+        <Animated.View entering={FadeIn.duration(250)} style={styles.recordingList}>
+          <Text style={[styles.listLabel, { color: palette.textSecondary }]}>Recordings ({recordings.length})</Text>
+          {recordings.map((recording) => (
+            <RecordingRow
+              key={recording.id}
+              recording={recording}
+              palette={palette}
+              isReplaySelected={recording.id === replayId}
+              onToggleReplay={handleToggleReplay}
+              onDelete={handleDeleteRecording}
+            />
+          ))}
+        </Animated.View>
+      )}
+    </View>
+  );
+}
+
+interface RecordingRowProps {
+  recording: RecordingSummary;
+  palette: Palette;
+  isReplaySelected: boolean;
+  onToggleReplay: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const RecordingRow = memo(function RecordingRow({
+  recording,
+  palette,
+  isReplaySelected,
+  onToggleReplay,
+  onDelete,
+}: RecordingRowProps) {
+  const { metadata } = recording;
+  const details = [
+    recording.durationMs !== undefined ? formatDuration(recording.durationMs) : 'cut short',
+    recording.sampleCount !== undefined ? `${recording.sampleCount} samples` : formatSize(recording.sizeBytes),
+    metadata.settings.transport === 'udp' ? 'UDP' : 'WS',
+  ];
+  if (metadata.server) {
+    details.push(metadata.server.name ?? metadata.server.ip);
+  }
+
+  return (
+    <View style={[styles.recordingRow, { backgroundColor: palette.cardBackgroundSecondary }]}>
+      <TouchableOpacity onPress={() => onToggleReplay(recording.id)} hitSlop={8} activeOpacity={0.7}>
+        <Ionicons
+          name={isReplaySelected ? 'stop-circle' : 'play-circle-outline'}
+          size={24}
+          color={isReplaySelected ? palette.accentGreen : palette.accentBlue}
+        />
+      </TouchableOpacity>
+      <View style={styles.recordingRowBody}>
+        <Text style={[styles.recordingRowTitle, { color: palette.textPrimary }]}>
+          {new Date(metadata.startedAt).toLocaleString()}
+        </Text>
+        <Text style={[styles.recordingRowMeta, { color: palette.textSecondary }]}>{details.join(' · ')}</Text>
+      </View>
+      <TouchableOpacity onPress={() => onDelete(recording.id)} hitSlop={8} activeOpacity={0.7}>
+        <Ionicons name="trash-outline" size={18} color={palette.textSecondary} />
+      </TouchableOpacity>
+    </View>
+  );
+});
+
+interface ChipSelectorProps<T> {
+  label: string;
+  palette: Palette;
+  value: T;
+  options: SelectorOption<T>[];
+  onChange: (value: T) => void;
+}
+
+function ChipSelector<T>({ label, palette, value, options, onChange }: ChipSelectorProps<T>) {
+  return (
+    <View style={styles.selectorGroup}>
+      <Text style={[styles.listLabel, { color: palette.textSecondary }]}>{label}</Text>
+      <View style={[styles.selector, { backgroundColor: palette.cardBackground }]}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.selectorButton, value === option.value && { backgroundColor: palette.accentBlue }]}
+            onPress={() => onChange(option.value)}
+            activeOpacity={0.82}
+          >
+            <Text
+              style={[styles.selectorButtonText, { color: value === option.value ? '#FFFFFF' : palette.textPrimary }]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 18,
+    borderWidth: 1,
+    padding: 16,
+    gap: 14,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+  actionButton: {
+    borderRadius: 12,
+    height: 50,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  replayControls: {
+    borderRadius: 12,
+    padding: 12,
+    gap: 10,
+  },
+  selectorGroup: {
+    gap: 6,
+  },
+  selector: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    gap: 4,
+  },
+  selectorButton: {
+    flex: 1,
+    borderRadius: 10,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  selectorButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  recordingList: {
+    gap: 6,
+  },
+  listLabel: {
+    fontSize: 12,
+    letterSpacing: 0.5,
+    textTransform: 'uppercase',
+    fontWeight: '600',
+  },
+  recordingRow: {
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  recordingRowBody: {
+    flex: 1,
+    gap: 2,
+  },
+  recordingRowTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  recordingRowMeta: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -1,7 +1,20 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as Linking from 'expo-linking';
+import dgram from 'react-native-udp';
+import { Buffer } from 'buffer';
+import {
+  decodeDiscoveryProbeResponse,
+  encodeDiscoveryProbePacket,
+  parseDiscoveryBeacon,
+} from '@/utils/binaryProtocol';
+import { DEFAULT_WS_PORT, parseConnectUri, type ConnectUri, type ConnectUriError } from '@/utils/connectUri';
 
 const TAG = '[Discovery]';
+const DISCOVERY_PORT = 9079;
+// Beacons arrive every 2s; drop a server after missing three in a row.
+const SERVER_EXPIRY_MS = 6000;
+const EXPIRY_CHECK_INTERVAL_MS = 1000;
+const PROBE_INTERVAL_MS = 2000;
 const DEBUG_DISCOVERY_LOGS = false;
 
 function debugLog(...args: unknown[]) {
@@ -10,52 +23,265 @@ function debugLog(...args: unknown[]) {
   }
 }
 
+export type DiscoverySource = 'beacon' | 'deepLink' | 'saved';
+
 export interface DiscoveredServer {
   ip: string;
-  port: number;
+  udpPort: number;
+  /** WebSocket port for the fallback transport. Beacons do not carry it, so they assume the default. */
+  wsPort: number;
   version: number;
+  source: DiscoverySource;
+  lastSeen: number;
+  rtt: number | undefined;
+  /** Court name from the game's QR code. Beacons never carry one. */
+  name: string | undefined;
+  /** Hex key for authenticating packets, from the game's QR code. Beacons never carry one. */
+  pairingKey: string | undefined;
+}
+
+export type DeepLinkResult =
+  | { ok: true; server: DiscoveredServer; link: ConnectUri }
+  | { ok: false; error: ConnectUriError };
+
+interface ServerEntry {
+  server: DiscoveredServer;
+  lastProbeAt: number;
 }
 
 interface UseDiscoveryReturn {
+  servers: DiscoveredServer[];
   discoveredServer: DiscoveredServer | null;
-  handleDeepLink: (url: string) => DiscoveredServer | null;
+  selectServer: (server: { ip: string; udpPort: number }) => void;
+  isListening: boolean;
+  handleDeepLink: (url: string) => DeepLinkResult;
+  /** List and select a server from the saved server book, keeping any fresher entry. */
+  addSavedServer: (server: Pick<DiscoveredServer, 'ip' | 'udpPort' | 'wsPort' | 'version' | 'name'>) => void;
 }
 
-export function useDiscovery(): UseDiscoveryReturn {
-  const [discoveredServer, setDiscoveredServer] = useState<DiscoveredServer | null>(null);
+interface UseDiscoveryOptions {
+  enableBroadcastListener?: boolean;
+  enableRttProbe?: boolean;
+}
+
+export function serverKey(server: { ip: string; udpPort: number }): string {
+  return `${server.ip}:${server.udpPort}`;
+}
+
+export function useDiscovery({
+  enableBroadcastListener = true,
+  enableRttProbe = true,
+}: UseDiscoveryOptions = {}): UseDiscoveryReturn {
+  const [servers, setServers] = useState<DiscoveredServer[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [isListening, setIsListening] = useState(false);
+
+  const socketRef = useRef<ReturnType<typeof dgram.createSocket> | null>(null);
+  const entriesRef = useRef<Map<string, ServerEntry>>(new Map());
+
+  const publishServers = useCallback(() => {
+    const next = Array.from(entriesRef.current.values(), (entry) => entry.server);
+    next.sort((a, b) => serverKey(a).localeCompare(serverKey(b)));
+    setServers(next);
+  }, []);
+
+  const handleDeepLink = useCallback((url: string): DeepLinkResult => {
+    debugLog(TAG, 'Processing deep link:', url);
+    const result = parseConnectUri(url);
+    if (!result.ok) {
+      // Other apps' links (e.g. the dev client's) are expected here; broken connect links are not.
+      if (result.error.code !== 'unsupported_link') {
+        console.warn(TAG, 'Invalid connect link:', result.error.message);
+      }
+      return result;
+    }
+
+    const link = result.uri;
+    const key = serverKey({ ip: link.host, udpPort: link.udpPort });
+    const existing = entriesRef.current.get(key);
+
+    // Servers from a QR code or deep link are not backed by beacons, so they never expire.
+    const server: DiscoveredServer = {
+      ip: link.host,
+      udpPort: link.udpPort,
+      wsPort: link.wsPort,
+      // Links from games that predate `v` are assumed to speak the oldest protocol.
+      version: link.protocolVersion ?? existing?.server.version ?? 1,
+      source: 'deepLink',
+      lastSeen: Date.now(),
+      rtt: existing?.server.rtt,
+      name: link.name,
+      pairingKey: link.pairingKey,
+    };
 
-  const handleDeepLink = useCallback((url: string): DiscoveredServer | null => {
+    debugLog(TAG, 'Discovered server via deep link:', server);
+    entriesRef.current.set(key, { server, lastProbeAt: existing?.lastProbeAt ?? 0 });
+    publishServers();
+    setSelectedKey(key);
+    return { ok: true, server, link };
+  }, [publishServers]);
+
+  const addSavedServer = useCallback((saved: Pick<DiscoveredServer, 'ip' | 'udpPort' | 'wsPort' | 'version' | 'name'>) => {
+    const key = serverKey(saved);
+    if (!entriesRef.current.has(key)) {
+      // Like deep-link servers, saved ones stay listed until a beacon takes over.
+      const server: DiscoveredServer = {
+        ...saved,
+        source: 'saved',
+        lastSeen: Date.now(),
+        rtt: undefined,
+        pairingKey: undefined,
+      };
+      debugLog(TAG, 'Added saved server:', server);
+      entriesRef.current.set(key, { server, lastProbeAt: 0 });
+      publishServers();
+    }
+    setSelectedKey(key);
+  }, [publishServers]);
+
+  const selectServer = useCallback((server: { ip: string; udpPort: number }) => {
+    debugLog(TAG, 'Server selected:', serverKey(server));
+    setSelectedKey(serverKey(server));
+  }, []);
+
+  const sendProbe = useCallback((entry: ServerEntry, now: number) => {
+    const socket = socketRef.current;
+    if (!enableRttProbe || !socket || now - entry.lastProbeAt < PROBE_INTERVAL_MS) {
+      return;
+    }
+
+    entry.lastProbeAt = now;
+    const probe = encodeDiscoveryProbePacket(now);
     try {
-      debugLog(TAG, 'Processing deep link:', url);
-      
-      const parsedUrl = new URL(url);
-      
-      if (parsedUrl.hostname === 'connect') {
-        const ip = parsedUrl.searchParams.get('ip');
-        const wsPort = parsedUrl.searchParams.get('ws');
-        const udpPort = parsedUrl.searchParams.get('udp');
-        
-        if (ip) {
-          const port = udpPort ? parseInt(udpPort, 10) : (wsPort ? parseInt(wsPort, 10) : 9081);
-          
-          const server = {
-            ip,
-            port,
-            version: 1,
-          };
-          
-          debugLog(TAG, 'Discovered server via deep link:', server);
-          setDiscoveredServer(server);
-          return server;
-        }
+      socket.send(probe, 0, probe.length, entry.server.udpPort, entry.server.ip);
+    } catch (error) {
+      debugLog(TAG, 'Failed to send probe:', error);
+    }
+  }, [enableRttProbe]);
+
+  const handleProbeResponse = useCallback((timestamp: number, key: string) => {
+    const entry = entriesRef.current.get(key);
+    if (!entry) {
+      return;
+    }
+
+    entry.server = { ...entry.server, rtt: Date.now() - timestamp };
+    publishServers();
+  }, [publishServers]);
+
+  const handleBeacon = useCallback((message: string, address: string) => {
+    const beacon = parseDiscoveryBeacon(message);
+    if (!beacon) {
+      debugLog(TAG, 'Ignoring non-beacon datagram from', address);
+      return;
+    }
+
+    const now = Date.now();
+    const key = serverKey({ ip: address, udpPort: beacon.port });
+    const existing = entriesRef.current.get(key);
+    const entry: ServerEntry = {
+      server: {
+        ip: address,
+        udpPort: beacon.port,
+        wsPort: existing?.server.wsPort ?? DEFAULT_WS_PORT,
+        version: beacon.version,
+        source: 'beacon',
+        lastSeen: now,
+        rtt: existing?.server.rtt,
+        // Details from an earlier QR scan stay valid while the game keeps running.
+        name: existing?.server.name,
+        pairingKey: existing?.server.pairingKey,
+      },
+      lastProbeAt: existing?.lastProbeAt ?? 0,
+    };
+    entriesRef.current.set(key, entry);
+
+    if (!existing) {
+      debugLog(TAG, 'Discovered server via beacon:', entry.server);
+    }
+
+    sendProbe(entry, now);
+    publishServers();
+  }, [publishServers, sendProbe]);
+
+  const handleMessage = useCallback((msg: Buffer, rinfo: { address: string; port: number }) => {
+    const probeResponse = decodeDiscoveryProbeResponse(msg);
+    if (probeResponse) {
+      handleProbeResponse(probeResponse.timestamp, serverKey({ ip: rinfo.address, udpPort: rinfo.port }));
+      return;
+    }
+    handleBeacon(msg.toString('utf8'), rinfo.address);
+  }, [handleBeacon, handleProbeResponse]);
+
+  const expireStaleServers = useCallback(() => {
+    const now = Date.now();
+    let removed = false;
+    for (const [key, entry] of entriesRef.current) {
+      if (entry.server.source === 'beacon' && now - entry.server.lastSeen > SERVER_EXPIRY_MS) {
+        debugLog(TAG, 'Server expired:', key);
+        entriesRef.current.delete(key);
+        removed = true;
       }
-      
-      return null;
+    }
+
+    if (removed) {
+      publishServers();
+    }
+  }, [publishServers]);
+
+  useEffect(() => {
+    if (!enableBroadcastListener) return;
+
+    let socket: ReturnType<typeof dgram.createSocket>;
+    try {
+      socket = dgram.createSocket({ type: 'udp4', reusePort: true });
     } catch (error) {
-      console.error(TAG, 'Error parsing deep link:', error);
-      return null;
+      console.error(TAG, 'Failed to create discovery socket:', error);
+      return;
     }
-  }, []);
+    socketRef.current = socket;
+
+    socket.on('message', handleMessage);
+
+    socket.on('error', (error) => {
+      console.error(TAG, 'Discovery socket error:', error);
+      setIsListening(false);
+    });
+
+    socket.on('close', () => {
+      debugLog(TAG, 'Discovery socket closed');
+      setIsListening(false);
+    });
+
+    socket.bind(DISCOVERY_PORT, (err: Error | null | undefined) => {
+      if (err) {
+        console.error(TAG, `Failed to bind discovery port ${DISCOVERY_PORT}:`, err);
+        return;
+      }
+      debugLog(TAG, `Listening for beacons on port ${DISCOVERY_PORT}`);
+      setIsListening(true);
+    });
+
+    const expiryInterval = setInterval(expireStaleServers, EXPIRY_CHECK_INTERVAL_MS);
+    const entries = entriesRef.current;
+
+    return () => {
+      clearInterval(expiryInterval);
+      try {
+        socket.close();
+      } catch (error) {
+        debugLog(TAG, 'Error closing discovery socket:', error);
+      }
+      socketRef.current = null;
+      for (const [key, entry] of entries) {
+        if (entry.server.source === 'beacon') {
+          entries.delete(key);
+        }
+      }
+      publishServers();
+      setIsListening(false);
+    };
+  }, [enableBroadcastListener, handleMessage, expireStaleServers, publishServers]);
 
   useEffect(() => {
     // Check for initial URL (app opened via deep link)
@@ -80,8 +306,24 @@ export function useDiscovery(): UseDiscoveryReturn {
     };
   }, [handleDeepLink]);
 
+  // Keep the user's pick while it is still listed; otherwise fall back to the
+  // first listed server so a single game on the LAN connects without a tap.
+  const discoveredServer = useMemo<DiscoveredServer | null>(() => {
+    if (selectedKey) {
+      const selected = servers.find((server) => serverKey(server) === selectedKey);
+      if (selected) {
+        return selected;
+      }
+    }
+    return servers[0] ?? null;
+  }, [servers, selectedKey]);
+
   return {
+    servers,
     discoveredServer,
+    selectServer,
+    isListening,
     handleDeepLink,
+    addSavedServer,
   };
 }
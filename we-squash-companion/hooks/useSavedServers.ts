@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { serverKey } from '@/hooks/useDiscovery';
+import { readJsonDocument, writeJsonDocument } from '@/utils/persistentStore';
+
+type TransportMode = 'udp' | 'websocket';
+
+const TAG = '[SavedServers]';
+const SERVER_BOOK_DOCUMENT = 'server-book.json';
+const SERVER_BOOK_VERSION = 1;
+const MAX_SAVED_SERVERS = 10;
+const DEBUG_SAVED_SERVER_LOGS = false;
+
+function debugLog(...args: unknown[]) {
+  if (DEBUG_SAVED_SERVER_LOGS) {
+    console.log(...args);
+  }
+}
+
+export interface SavedServer {
+  name: string | undefined;
+  ip: string;
+  udpPort: number;
+  wsPort: number;
+  /** Protocol version last known for the server. */
+  version: number;
+  lastTransport: TransportMode;
+  /**
+   * The server said in its welcome that it only accepts packets signed with the
+   * pairing key from its QR code. Keys change every time the game starts and
+   * are not saved, so reconnecting needs a fresh scan.
+   */
+  requiresPairing: boolean;
+  lastUsedAt: number;
+}
+
+interface ServerBook {
+  /** Connect to the most recent server when discovery finds it again. */
+  autoConnect: boolean;
+  /** Most recently used first. */
+  servers: SavedServer[];
+}
+
+interface UseSavedServersReturn {
+  savedServers: SavedServer[];
+  /** False until the book has been read from storage. */
+  isLoaded: boolean;
+  autoConnect: boolean;
+  setAutoConnect: (enabled: boolean) => void;
+  /** Add or refresh a server after a successful connection. */
+  rememberServer: (server: Omit<SavedServer, 'lastUsedAt'>) => void;
+  forgetServer: (server: { ip: string; udpPort: number }) => void;
+}
+
+const EMPTY_SERVER_BOOK: ServerBook = { autoConnect: false, servers: [] };
+
+export function useSavedServers(): UseSavedServersReturn {
+  const [book, setBook] = useState<ServerBook>(EMPTY_SERVER_BOOK);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const bookRef = useRef(book);
+  // Updates made before the stored book is read are replayed on top of it.
+  const pendingUpdatesRef = useRef<((current: ServerBook) => ServerBook)[] | null>([]);
+
+  const updateBook = useCallback((update: (current: ServerBook) => ServerBook) => {
+    const next = update(bookRef.current);
+    bookRef.current = next;
+    setBook(next);
+    if (pendingUpdatesRef.current) {
+      pendingUpdatesRef.current.push(update);
+      return;
+    }
+    writeJsonDocument(SERVER_BOOK_DOCUMENT, { version: SERVER_BOOK_VERSION, ...next });
+  }, []);
+
+  const rememberServer = useCallback((server: Omit<SavedServer, 'lastUsedAt'>) => {
+    const key = serverKey(server);
+    debugLog(TAG, 'Remembering', key);
+    updateBook((current) => ({
+      ...current,
+      servers: [
+        { ...server, lastUsedAt: Date.now() },
+        ...current.servers.filter((saved) => serverKey(saved) !== key),
+      ].slice(0, MAX_SAVED_SERVERS),
+    }));
+  }, [updateBook]);
+
+  const forgetServer = useCallback((server: { ip: string; udpPort: number }) => {
+    const key = serverKey(server);
+    debugLog(TAG, 'Forgetting', key);
+    updateBook((current) => ({
+      ...current,
+      servers: current.servers.filter((saved) => serverKey(saved) !== key),
+    }));
+  }, [updateBook]);
+
+  const setAutoConnect = useCallback((enabled: boolean) => {
+    updateBook((current) => ({ ...current, autoConnect: enabled }));
+  }, [updateBook]);
+
+  useEffect(() => {
+    let cancelled = false;
+    void readJsonDocument(SERVER_BOOK_DOCUMENT).then((document) => {
+      if (cancelled) return;
+      const pendingUpdates = pendingUpdatesRef.current ?? [];
+      pendingUpdatesRef.current = null;
+      const loaded = pendingUpdates.reduce((current, update) => update(current), parseServerBook(document));
+      debugLog(TAG, `Loaded ${loaded.servers.length} saved servers`);
+      bookRef.current = loaded;
+      setBook(loaded);
+      setIsLoaded(true);
+      if (pendingUpdates.length > 0) {
+        writeJsonDocument(SERVER_BOOK_DOCUMENT, { version: SERVER_BOOK_VERSION, ...loaded });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    savedServers: book.servers,
+    isLoaded,
+    autoConnect: book.autoConnect,
+    setAutoConnect,
+    rememberServer,
+    forgetServer,
+  };
+}
+
+/** Read a stored book, keeping every entry that is still well-formed. */
+function parseServerBook(document: unknown): ServerBook {
+  if (!isRecord(document) || document.version !== SERVER_BOOK_VERSION) {
+    return EMPTY_SERVER_BOOK;
+  }
+  const servers = Array.isArray(document.servers)
+    ? document.servers
+        .filter(isSavedServer)
+        // Entries saved before requiresPairing existed read as unpaired.
+        .map((server) => ({ ...server, requiresPairing: server.requiresPairing === true }))
+    : [];
+  return {
+    autoConnect: document.autoConnect === true,
+    servers: servers.sort((a, b) => b.lastUsedAt - a.lastUsedAt).slice(0, MAX_SAVED_SERVERS),
+  };
+}
+
+function isSavedServer(value: unknown): value is SavedServer {
+  return (
+    isRecord(value) &&
+    (value.name === undefined || typeof value.name === 'string') &&
+    typeof value.ip === 'string' &&
+    isPort(value.udpPort) &&
+    isPort(value.wsPort) &&
+    typeof value.version === 'number' &&
+    (value.lastTransport === 'udp' || value.lastTransport === 'websocket') &&
+    (value.requiresPairing === undefined || typeof value.requiresPairing === 'boolean') &&
+    typeof value.lastUsedAt === 'number'
+  );
+}
+
+function isPort(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= 0xffff;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Platform } from 'react-native';
+import type { SensorSampleListener } from '@/hooks/useSensorStream';
+import { describeDevice, getAppVersion } from '@/utils/device';
+import {
+  appendRecord,
+  closeRecordingWriter,
+  deleteRecording as deleteRecordingFile,
+  flushRecordingWriter,
+  listRecordings,
+  openRecordingWriter,
+  type RecordingSummary,
+  type RecordingWriter,
+} from '@/utils/recordingFiles';
+import type { RecordingMetadata } from '@/utils/sensorRecording';
+
+type TransportMode = 'udp' | 'websocket';
+
+const TAG = '[Recorder]';
+const FLUSH_INTERVAL_MS = 1000;
+// Roughly 15 MB at 60 Hz; a forgotten recorder should not fill the phone.
+const MAX_RECORDING_DURATION_MS = 30 * 60 * 1000;
+const DEBUG_RECORDER_LOGS = false;
+
+function debugLog(...args: unknown[]) {
+  if (DEBUG_RECORDER_LOGS) {
+    console.log(...args);
+  }
+}
+
+export interface ActiveRecording {
+  id: string;
+  startedAt: number;
+  /** Updated once per flush, not per sample. */
+  sampleCount: number;
+}
+
+interface UseSensorRecorderOptions {
+  onSample: (listener: SensorSampleListener) => () => void;
+  connectionState: string;
+  transport: TransportMode;
+  isFallbackActive: boolean;
+}
+
+interface UseSensorRecorderReturn {
+  recordings: RecordingSummary[];
+  activeRecording: ActiveRecording | null;
+  /** Start recording with the session's settings and server; device details are added here. */
+  startRecording: (session: Pick<RecordingMetadata, 'settings' | 'server'>) => boolean;
+  stopRecording: () => void;
+  deleteRecording: (id: string) => void;
+}
+
+export function useSensorRecorder({
+  onSample,
+  connectionState,
+  transport,
+  isFallbackActive,
+}: UseSensorRecorderOptions): UseSensorRecorderReturn {
+  const [recordings, setRecordings] = useState<RecordingSummary[]>([]);
+  const [activeRecording, setActiveRecording] = useState<ActiveRecording | null>(null);
+  const writerRef = useRef<RecordingWriter | null>(null);
+  const connectionRef = useRef({ connectionState, transport, isFallbackActive });
+
+  const refreshRecordings = useCallback(() => {
+    setRecordings(listRecordings());
+  }, []);
+
+  const appendConnectionRecord = useCallback((writer: RecordingWriter, now: number) => {
+    const connection = connectionRef.current;
+    appendRecord(writer, {
+      type: 'connection',
+      t: now - writer.startedAt,
+      state: connection.connectionState,
+      transport: connection.transport,
+      fallback: connection.isFallbackActive,
+    });
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    const writer = writerRef.current;
+    if (!writer) {
+      return;
+    }
+    writerRef.current = null;
+    closeRecordingWriter(writer, Date.now());
+    debugLog(TAG, `Stopped ${writer.id} after ${writer.sampleCount} samples`);
+    setActiveRecording(null);
+    refreshRecordings();
+  }, [refreshRecordings]);
+
+  const startRecording = useCallback((session: Pick<RecordingMetadata, 'settings' | 'server'>) => {
+    if (writerRef.current) {
+      return false;
+    }
+    const startedAt = Date.now();
+    const writer = openRecordingWriter({
+      startedAt,
+      device: {
+        model: describeDevice(),
+        platform: `${Platform.OS} ${Platform.Version}`,
+        appVersion: getAppVersion(),
+      },
+      ...session,
+    });
+    if (!writer) {
+      return false;
+    }
+    // The first record says what state the link was in when recording began.
+    appendConnectionRecord(writer, startedAt);
+    writerRef.current = writer;
+    debugLog(TAG, 'Started', writer.id);
+    setActiveRecording({ id: writer.id, startedAt, sampleCount: 0 });
+    return true;
+  }, [appendConnectionRecord]);
+
+  const deleteRecording = useCallback((id: string) => {
+    if (writerRef.current?.id === id) {
+      return;
+    }
+    deleteRecordingFile(id);
+    refreshRecordings();
+  }, [refreshRecordings]);
+
+  useEffect(() => {
+    connectionRef.current = { connectionState, transport, isFallbackActive };
+    const writer = writerRef.current;
+    if (writer) {
+      appendConnectionRecord(writer, Date.now());
+    }
+  }, [appendConnectionRecord, connectionState, transport, isFallbackActive]);
+
+  const activeId = activeRecording?.id;
+  useEffect(() => {
+    const writer = writerRef.current;
+    if (!activeId || !writer) {
+      return;
+    }
+
+    const unsubscribe = onSample((data, timestamp) => {
+      appendRecord(writer, {
+        type: 'sample',
+        t: timestamp - writer.startedAt,
+        ra: data.rotation.alpha,
+        rb: data.rotation.beta,
+        rg: data.rotation.gamma,
+        ga: data.gyro.alpha,
+        gb: data.gyro.beta,
+        gg: data.gyro.gamma,
+        ax: data.accel.x,
+        ay: data.accel.y,
+        az: data.accel.z,
+      });
+    });
+
+    const flushInterval = setInterval(() => {
+      if (!flushRecordingWriter(writer)) {
+        console.warn(TAG, 'Stopping recording after a failed write');
+        stopRecording();
+        return;
+      }
+      if (Date.now() - writer.startedAt >= MAX_RECORDING_DURATION_MS) {
+        debugLog(TAG, 'Maximum recording duration reached');
+        stopRecording();
+        return;
+      }
+      setActiveRecording((current) =>
+        current?.id === writer.id ? { ...current, sampleCount: writer.sampleCount } : current,
+      );
+    }, FLUSH_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(flushInterval);
+    };
+  }, [activeId, onSample, stopRecording]);
+
+  useEffect(() => {
+    refreshRecordings();
+  }, [refreshRecordings]);
+
+  // Finish the file properly if the screen goes away mid-recording.
+  useEffect(() => {
+    return () => {
+      const writer = writerRef.current;
+      if (writer) {
+        writerRef.current = null;
+        closeRecordingWriter(writer, Date.now());
+      }
+    };
+  }, []);
+
+  return {
+    recordings,
+    activeRecording,
+    startRecording,
+    stopRecording,
+    deleteRecording,
+  };
+}
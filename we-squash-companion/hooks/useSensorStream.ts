@@ -1,13 +1,49 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Buffer } from 'buffer';
-import { DeviceMotion, type DeviceMotionMeasurement } from 'expo-sensors';
 import { useWebSocket } from './useWebSocket';
 import { useUDPSocket } from './useUDPSocket';
+import { useSettings } from './useSettings';
 import {
-  SENSOR_PACKET_SIZE,
+  HANDSHAKE_MIN_SERVER_VERSION,
+  MAX_REDUNDANT_SAMPLES,
+  MAX_SENSOR_BATCH_PACKET_SIZE,
+  PACKET_FLAG,
+  PACKET_TYPE,
+  TIME_SYNC_MIN_SERVER_VERSION,
+  SENSOR_COMPACT_PACKET_SIZE,
+  SENSOR_PACKET_V2_SIZE,
+  SENSOR_QUAT_COMPACT_PACKET_SIZE,
+  SENSOR_QUAT_PACKET_SIZE,
+  capabilitiesFromProtocolVersion,
   encodeCalibrationPacket,
-  encodeSensorPacketInto,
+  encodeCompactQuaternionSensorPacketInto,
+  encodeCompactSensorPacketInto,
+  encodeQuaternionSensorPacketInto,
+  encodeRedundantSensorPacketInto,
+  encodeSensorBatchPacketInto,
+  encodeSensorPacketV2Into,
+  maxRedundantSensorSamples,
+  maxSensorBatchSamples,
+  sensorBatchPacketSize,
+  sensorRedundantPacketSize,
+  type ClientHello,
+  type SensorSample,
+  type SensorSampleFormat,
+  type ServerCapabilities,
+  type ServerMessage,
 } from '@/utils/binaryProtocol';
+import { eulerToQuaternion, type Quaternion } from '@/utils/orientation';
+import { describeDevice, getAppVersion } from '@/utils/device';
+import { expoDeviceMotionSource, type SensorSource } from '@/utils/sensorSource';
+import { toServerTime, type ClockEstimate } from '@/utils/clockSync';
+import type { ConnectionQuality } from '@/utils/connectionQuality';
+import type {
+  CalibrateMessage,
+  QuaternionSensorMessage,
+  SensorBatchMessage,
+  SensorMessage,
+  WsEncoding,
+} from '@/utils/jsonProtocol';
 
 interface Vec3 {
   x: number;
@@ -31,17 +67,45 @@ const ZERO_EULER: Euler = { alpha: 0, beta: 0, gamma: 0 };
 const ZERO_VEC3: Vec3 = { x: 0, y: 0, z: 0 };
 const ZERO_SENSOR: SensorData = { rotation: ZERO_EULER, gyro: ZERO_EULER, accel: ZERO_VEC3 };
 
-const DEFAULT_THROTTLE_INTERVAL = 16;
 const SENSOR_UI_UPDATE_INTERVAL_MS = 66;
 const PACKET_COUNTER_UPDATE_INTERVAL_MS = 250;
 const UDP_PACKET_BUFFER_POOL_SIZE = 4;
+const DEFAULT_WS_FALLBACK_PORT = 9080;
+const SEQUENCE_MODULO = 0x100000000;
+// Upper bound on readings buffered between flushes; the oldest are dropped beyond this.
+const MAX_BATCHED_SAMPLES = 64;
+// Every packet type the phone can send, announced in the handshake.
+const SUPPORTED_PACKET_FORMATS = [
+  PACKET_TYPE.SENSOR,
+  PACKET_TYPE.SENSOR_QUAT,
+  PACKET_TYPE.SENSOR_COMPACT,
+  PACKET_TYPE.SENSOR_QUAT_COMPACT,
+  PACKET_TYPE.SENSOR_BATCH,
+  PACKET_TYPE.SENSOR_REDUNDANT,
+];
 const DEBUG_SENSOR_LOGS = false;
 
-type ConnectionState = 'idle' | 'connecting' | 'open' | 'closing' | 'closed' | 'error';
+type ConnectionState = 'idle' | 'connecting' | 'open' | 'degraded' | 'closing' | 'closed' | 'error';
 type TransportMode = 'udp' | 'websocket';
+export type OrientationMode = 'euler' | 'quaternion';
+export type PacketPrecision = 'full' | 'compact';
+export type SampleMode = 'latest' | 'batched';
+export type TimestampClock = 'phone' | 'server';
+/** Receives a motion sample with the phone time (ms) it was read at. */
+export type SensorSampleListener = (data: SensorData, timestamp: number) => void;
+
+export interface RedundancyStats {
+  /** Previous samples repeated per datagram right now (0 when off or unsupported). */
+  depth: number;
+  redundantSamplesSent: number;
+  /** Reported by the server; undefined until its first heartbeat response with stats. */
+  recoveredSamples: number | undefined;
+  lostSamples: number | undefined;
+}
 
 interface UseSensorStreamReturn {
   sensorData: SensorData;
+  /** True while connected and the sensor source is delivering readings. */
   isStreaming: boolean;
   isConnected: boolean;
   connect: (wsUrl?: string) => void;
@@ -50,61 +114,142 @@ interface UseSensorStreamReturn {
   packetsSent: number;
   connectionState: ConnectionState;
   latency: number | undefined;
+  /** RTT, jitter, loss and send statistics of the active transport. */
+  connectionQuality: ConnectionQuality;
   transportMode: TransportMode;
+  isFallbackActive: boolean;
+  packetPrecision: PacketPrecision;
+  sampleMode: SampleMode;
+  redundancy: RedundancyStats;
+  /**
+   * What the server supports: from the handshake on the active transport, else
+   * inferred from its beacon version. Undefined when neither is known.
+   */
+  serverCapabilities: ServerCapabilities | undefined;
+  /** Sensor data framing in use on the WebSocket, as negotiated with the server. */
+  wsEncoding: WsEncoding;
+  /** Estimated server clock minus phone clock (ms), from UDP time sync. */
+  clockOffset: number | undefined;
+  /** Estimated change in clockOffset per ms of phone time. */
+  clockDrift: number | undefined;
+  /**
+   * Subscribe to messages the game sends over UDP (calibration, score, rally events).
+   * Subscriptions survive reconnects and failover. Returns an unsubscribe function.
+   */
+  onMessage: (listener: (message: ServerMessage) => void) => () => void;
+  /**
+   * Subscribe to every sensor sample as it is queued for sending. Samples
+   * only flow while connected. Returns an unsubscribe function.
+   */
+  onSample: (listener: SensorSampleListener) => () => void;
 }
 
 interface UseSensorStreamOptions {
   wsUrl?: string;
+  /** Sensor update interval in ms. Defaults to the stored settings, as do the next two. */
   updateInterval?: number;
+  /** Minimum ms between sensor packets. */
   throttleInterval?: number;
   transport?: TransportMode;
   serverIp?: string;
   serverPort?: number;
+  wsFallbackPort?: number;
+  enableFailover?: boolean;
+  orientationMode?: OrientationMode;
+  /** Requested UDP packet precision; compact is only used when the server supports it. */
+  precision?: PacketPrecision;
+  /**
+   * Requested sample mode: 'latest' sends only the newest reading per flush,
+   * 'batched' sends every reading since the last flush. Batching is only used
+   * when the server supports it.
+   */
+  sampleMode?: SampleMode;
+  /**
+   * Previous samples repeated in each UDP datagram so the server can recover
+   * samples from a lost datagram (0 = off). Only used when the server supports it.
+   */
+  redundancy?: number;
+  /**
+   * Clock for sensor timestamps. 'server' maps them onto the server's clock once
+   * time sync has an estimate (UDP only), and flags the packets accordingly.
+   */
+  timestampClock?: TimestampClock;
+  /**
+   * Requested WebSocket framing for sensor data. 'binary' sends the same packets
+   * as UDP, but only once the server's welcome says it accepts them.
+   */
+  wsEncoding?: WsEncoding;
+  /** Protocol version advertised by the server's discovery beacon, if known. */
+  serverProtocolVersion?: number;
+  /** Hex pairing key from the game's QR code; when set, UDP sensor and command packets are authenticated. */
+  pairingKey?: string;
+  /**
+   * Where readings come from while connected; defaults to the phone's
+   * DeviceMotion. Every source goes through the same send path, over either
+   * transport. Switching sources restarts streaming from the new one.
+   */
+  source?: SensorSource;
 }
 
-interface SensorPayload {
-  type: 'sensor';
-  device: 'phone';
-  ra: number;
-  rb: number;
-  rg: number;
-  ga: number;
-  gb: number;
-  gg: number;
-  ax: number;
-  ay: number;
-  az: number;
-  ts: number;
-}
-
-interface CalibrationPayload {
-  type: 'calibrate';
-  device: 'phone';
-  ts: number;
-}
-
-function round4(n: number): number {
-  return Math.round(n * 10000) / 10000;
+function createSensorSample(): SensorSample {
+  return {
+    ra: 0,
+    rb: 0,
+    rg: 0,
+    qx: 0,
+    qy: 0,
+    qz: 0,
+    qw: 1,
+    ga: 0,
+    gb: 0,
+    gg: 0,
+    ax: 0,
+    ay: 0,
+    az: 0,
+    ts: 0,
+    tsOffset: 0,
+  };
 }
 
 export function useSensorStream({
   wsUrl: initialWsUrl = '',
-  updateInterval = 16,
-  throttleInterval = DEFAULT_THROTTLE_INTERVAL,
-  transport = 'udp',
+  updateInterval: requestedUpdateInterval,
+  throttleInterval: requestedThrottleInterval,
+  transport: requestedTransport,
   serverIp = '',
   serverPort = 9081,
+  wsFallbackPort = DEFAULT_WS_FALLBACK_PORT,
+  enableFailover = true,
+  orientationMode = 'euler',
+  precision = 'full',
+  sampleMode: requestedSampleMode = 'latest',
+  redundancy = 0,
+  timestampClock = 'phone',
+  wsEncoding: requestedWsEncoding = 'binary',
+  serverProtocolVersion,
+  pairingKey,
+  source = expoDeviceMotionSource,
 }: UseSensorStreamOptions): UseSensorStreamReturn {
+  const { settings } = useSettings();
+  const updateInterval = requestedUpdateInterval ?? settings.sensorUpdateIntervalMs;
+  const throttleInterval = requestedThrottleInterval ?? settings.sendThrottleIntervalMs;
+  const transport = requestedTransport ?? settings.defaultTransport;
+
   const [sensorData, setSensorData] = useState<SensorData>(ZERO_SENSOR);
   const [packetsSent, setPacketsSent] = useState(0);
   const [isSensorAvailable, setIsSensorAvailable] = useState(false);
   const [transportMode, setTransportMode] = useState<TransportMode>(transport);
+  const [isFallbackActive, setIsFallbackActive] = useState(false);
+  const [redundantSamplesSent, setRedundantSamplesSent] = useState(0);
+  const [isWsBinaryAccepted, setIsWsBinaryAccepted] = useState(false);
+  // Set when a finite source (e.g. a replay that does not loop) runs out.
+  const [hasSourceEnded, setHasSourceEnded] = useState(false);
 
-  const subscriptionRef = useRef<ReturnType<typeof DeviceMotion.addListener> | null>(null);
+  const sampleListenersRef = useRef(new Set<SensorSampleListener>());
   const packetsSentRef = useRef(0);
   const lastSentRef = useRef(0);
   const lastSensorUiUpdateRef = useRef(0);
-  const pendingPayloadRef = useRef<SensorPayload>({
+  const pendingPayloadRef = useRef<SensorMessage>({
     type: 'sensor',
     device: 'phone',
     ra: 0,
@@ -117,27 +262,57 @@ export function useSensorStream({
     ay: 0,
     az: 0,
     ts: 0,
+    seq: 0,
   });
   const hasPendingPayloadRef = useRef(false);
+  // Batched mode: pooled sample objects, the first batchedSampleCountRef of which are pending.
+  const batchedSamplesRef = useRef<SensorSample[]>([]);
+  const batchedSampleCountRef = useRef(0);
+  // Redundancy: copies of the last sent samples (oldest first), ending at sequenceRef - 1.
+  const sentHistoryRef = useRef<SensorSample[]>([]);
+  const sentHistoryCountRef = useRef(0);
+  const redundancyScratchRef = useRef<SensorSample[]>([]);
+  const latestSampleRef = useRef<SensorSample[]>([createSensorSample()]);
+  const redundantSamplesSentRef = useRef(0);
+  const clockEstimateRef = useRef<ClockEstimate | undefined>(undefined);
   const sendTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const packetCounterIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const udpPacketBufferPoolRef = useRef<Buffer[]>(
-    Array.from({ length: UDP_PACKET_BUFFER_POOL_SIZE }, () => Buffer.allocUnsafe(SENSOR_PACKET_SIZE)),
-  );
-  const udpPacketBufferIndexRef = useRef(0);
+  // One small ring of reusable buffers per packet size, so each format is sent without allocating.
+  const udpPacketBufferPoolsRef = useRef<Map<number, { buffers: Buffer[]; index: number }>>(new Map());
+  const quaternionRef = useRef<Quaternion>({ x: 0, y: 0, z: 0, w: 1 });
+  // Sequence numbers are per session and survive UDP/WebSocket failover.
+  const sequenceRef = useRef(0);
+  const sessionEpochRef = useRef(0);
   const wsUrlRef = useRef(initialWsUrl);
   const serverIpRef = useRef(serverIp);
   const serverPortRef = useRef(serverPort);
+  const wsFallbackPortRef = useRef(wsFallbackPort);
+  const sessionActiveRef = useRef(false);
+
+  const hello = useMemo<ClientHello>(() => ({
+    appVersion: getAppVersion(),
+    deviceModel: describeDevice(),
+    sensorRate: Math.round(1000 / updateInterval),
+    formats: SUPPORTED_PACKET_FORMATS,
+  }), [updateInterval]);
+  // Servers that ignore hellos would hold the link in 'connecting' until the handshake times out.
+  const serverHello =
+    serverProtocolVersion !== undefined && serverProtocolVersion >= HANDSHAKE_MIN_SERVER_VERSION ? hello : undefined;
 
   const {
     isConnected: wsIsConnected,
     connect: wsConnect,
     disconnect: wsDisconnect,
     send: wsSend,
+    sendMessage: wsSendMessage,
+    subscribe: wsSubscribe,
     connectionState: wsConnectionState,
     latency: wsLatency,
+    quality: wsQuality,
+    capabilities: wsCapabilities,
   } = useWebSocket({
     url: initialWsUrl,
+    hello: serverHello,
   });
 
   const {
@@ -147,22 +322,58 @@ export function useSensorStream({
     send: udpSend,
     connectionState: udpConnectionState,
     latency: udpLatency,
+    quality: udpQuality,
+    receiverStats,
+    clockEstimate,
+    capabilities: udpCapabilities,
+    onMessage,
   } = useUDPSocket({
     enableHeartbeat: true,
+    enableTimeSync: serverProtocolVersion !== undefined && serverProtocolVersion >= TIME_SYNC_MIN_SERVER_VERSION,
+    hello: serverHello,
+    pairingKey,
+    heartbeat: settings.heartbeat,
   });
 
+  const inferredCapabilities = useMemo(
+    () => (serverProtocolVersion !== undefined ? capabilitiesFromProtocolVersion(serverProtocolVersion) : undefined),
+    [serverProtocolVersion],
+  );
+
   const isConnected = transportMode === 'udp' ? udpIsConnected : wsIsConnected;
   const connectionState = transportMode === 'udp' ? udpConnectionState : wsConnectionState;
   const latency = transportMode === 'udp' ? udpLatency : wsLatency;
+  const connectionQuality = transportMode === 'udp' ? udpQuality : wsQuality;
+  const serverCapabilities =
+    (transportMode === 'udp' ? udpCapabilities : wsCapabilities) ?? inferredCapabilities;
+  const packetPrecision: PacketPrecision =
+    precision === 'compact' && serverCapabilities?.compact ? 'compact' : 'full';
+  const sampleMode: SampleMode =
+    requestedSampleMode === 'batched' && serverCapabilities?.batch ? 'batched' : 'latest';
+  const redundancyDepth =
+    transportMode === 'udp' && serverCapabilities?.redundancy
+      ? Math.max(0, Math.min(MAX_REDUNDANT_SAMPLES, Math.floor(redundancy)))
+      : 0;
+  const wsEncoding: WsEncoding = requestedWsEncoding === 'binary' && isWsBinaryAccepted ? 'binary' : 'json';
+  // Switching clocks re-runs the streaming effect, so no datagram mixes phone and server timestamps.
+  const usesServerClock = timestampClock === 'server' && transportMode === 'udp' && clockEstimate !== undefined;
+  const clockFlag = usesServerClock ? PACKET_FLAG.SERVER_CLOCK : 0;
+  let sampleFormat: SensorSampleFormat;
+  if (orientationMode === 'quaternion') {
+    sampleFormat = packetPrecision === 'compact' ? PACKET_TYPE.SENSOR_QUAT_COMPACT : PACKET_TYPE.SENSOR_QUAT;
+  } else {
+    sampleFormat = packetPrecision === 'compact' ? PACKET_TYPE.SENSOR_COMPACT : PACKET_TYPE.SENSOR;
+  }
 
   useEffect(() => {
     let mounted = true;
+    setIsSensorAvailable(false);
 
     async function checkSensor() {
       try {
-        const available = await DeviceMotion.isAvailableAsync();
+        const available = await source.isAvailableAsync();
         if (DEBUG_SENSOR_LOGS) {
-          console.log('[Sensor] DeviceMotion available:', available);
+          console.log('[Sensor] %s source available:', source.kind, available);
         }
         if (mounted) {
           setIsSensorAvailable(available);
@@ -180,14 +391,15 @@ export function useSensorStream({
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [source]);
 
   useEffect(() => {
-    DeviceMotion.setUpdateInterval(updateInterval);
-  }, [updateInterval]);
+    source.setUpdateInterval(updateInterval);
+  }, [source, updateInterval]);
 
   useEffect(() => {
     setTransportMode(transport);
+    setIsFallbackActive(false);
   }, [transport]);
 
   useEffect(() => {
@@ -202,6 +414,27 @@ export function useSensorStream({
     serverPortRef.current = serverPort;
   }, [serverPort]);
 
+  useEffect(() => {
+    wsFallbackPortRef.current = wsFallbackPort;
+  }, [wsFallbackPort]);
+
+  useEffect(() => {
+    clockEstimateRef.current = clockEstimate;
+  }, [clockEstimate]);
+
+  // The server's welcome on each WebSocket connection says whether it takes binary frames.
+  useEffect(() => {
+    return wsSubscribe('welcome', (message) => {
+      setIsWsBinaryAccepted(message.encodings?.includes('binary') ?? false);
+    });
+  }, [wsSubscribe]);
+
+  useEffect(() => {
+    if (!wsIsConnected) {
+      setIsWsBinaryAccepted(false);
+    }
+  }, [wsIsConnected]);
+
   const clearSendTimeout = useCallback(() => {
     if (sendTimeoutRef.current !== null) {
       clearTimeout(sendTimeoutRef.current);
@@ -218,16 +451,24 @@ export function useSensorStream({
 
   const connect = useCallback((explicitWsUrl?: string) => {
     if (DEBUG_SENSOR_LOGS) {
-      console.log('[Sensor] connect() called, transport=', transportMode);
+      console.log('[Sensor] connect() called, transport=', transport);
     }
     packetsSentRef.current = 0;
+    redundantSamplesSentRef.current = 0;
+    sentHistoryCountRef.current = 0;
+    sequenceRef.current = 0;
+    sessionEpochRef.current = Date.now();
     lastSentRef.current = 0;
     lastSensorUiUpdateRef.current = 0;
     hasPendingPayloadRef.current = false;
     clearSendTimeout();
     setPacketsSent(0);
+    setRedundantSamplesSent(0);
+    setTransportMode(transport);
+    setIsFallbackActive(false);
+    sessionActiveRef.current = true;
 
-    if (transportMode === 'udp') {
+    if (transport === 'udp') {
       const ip = serverIpRef.current;
       const port = serverPortRef.current;
       if (ip && port) {
@@ -243,26 +484,172 @@ export function useSensorStream({
         wsConnect(url);
       }
     }
-  }, [clearSendTimeout, transportMode, udpConnect, wsConnect]);
+  }, [clearSendTimeout, transport, udpConnect, wsConnect]);
 
   const disconnect = useCallback(() => {
+    sessionActiveRef.current = false;
     clearSendTimeout();
     hasPendingPayloadRef.current = false;
-    if (transportMode === 'udp') {
+    if (isFallbackActive) {
+      // Both transports are live during fallback: WebSocket streams while UDP reconnects.
+      udpDisconnect();
+      wsDisconnect();
+      setIsFallbackActive(false);
+    } else if (transportMode === 'udp') {
       udpDisconnect();
     } else {
       wsDisconnect();
     }
-  }, [clearSendTimeout, transportMode, udpDisconnect, wsDisconnect]);
+  }, [clearSendTimeout, isFallbackActive, transportMode, udpDisconnect, wsDisconnect]);
 
-  const send = useCallback((data: SensorPayload): boolean => {
-    if (transportMode === 'udp') {
-      const pool = udpPacketBufferPoolRef.current;
-      const index = udpPacketBufferIndexRef.current;
-      const packetBuffer = pool[index];
-      udpPacketBufferIndexRef.current = (index + 1) % pool.length;
+  // UDP failover state machine (only when UDP is the preferred transport):
+  //   udp        -- heartbeat timeout / bind error -->  fallback (stream over WS, UDP keeps reconnecting)
+  //   fallback   -- UDP heartbeat answered        -->  udp (close WS)
+  // UDP recovery is left to useUDPSocket's reconnect backoff, so it stops after maxReconnectAttempts.
+  useEffect(() => {
+    if (!sessionActiveRef.current || !enableFailover || transport !== 'udp') {
+      return;
+    }
+
+    const isUdpDown = udpConnectionState === 'closed' || udpConnectionState === 'error';
+
+    if (!isFallbackActive) {
+      if (!isUdpDown) {
+        return;
+      }
+
+      const ip = serverIpRef.current;
+      if (!ip) {
+        return;
+      }
+
+      if (DEBUG_SENSOR_LOGS) {
+        console.log('[Sensor] UDP link lost (%s), falling back to WebSocket', udpConnectionState);
+      }
+      hasPendingPayloadRef.current = false;
+      clearSendTimeout();
+      setIsFallbackActive(true);
+      setTransportMode('websocket');
+      wsConnect(`ws://${ip}:${wsFallbackPortRef.current}`);
+    }
+
+    if (udpConnectionState === 'open') {
+      if (DEBUG_SENSOR_LOGS) {
+        console.log('[Sensor] UDP link recovered, leaving WebSocket fallback');
+      }
+      hasPendingPayloadRef.current = false;
+      clearSendTimeout();
+      setIsFallbackActive(false);
+      setTransportMode('udp');
+      wsDisconnect();
+    }
+  }, [
+    clearSendTimeout,
+    enableFailover,
+    isFallbackActive,
+    transport,
+    udpConnectionState,
+    wsConnect,
+    wsDisconnect,
+  ]);
 
-      encodeSensorPacketInto(packetBuffer, {
+  const nextPacketBuffer = useCallback((size: number): Buffer => {
+    let pool = udpPacketBufferPoolsRef.current.get(size);
+    if (!pool) {
+      pool = {
+        buffers: Array.from({ length: UDP_PACKET_BUFFER_POOL_SIZE }, () => Buffer.allocUnsafe(size)),
+        index: 0,
+      };
+      udpPacketBufferPoolsRef.current.set(size, pool);
+    }
+    const packetBuffer = pool.buffers[pool.index];
+    pool.index = (pool.index + 1) % pool.buffers.length;
+    return packetBuffer;
+  }, []);
+
+  /** Compact timestamp: ms since session start, or the server time itself on the server clock. */
+  const toCompactTimestamp = useCallback((ts: number): number => {
+    return usesServerClock ? ts : ts - sessionEpochRef.current;
+  }, [usesServerClock]);
+
+  const encodeBinarySensorPacket = useCallback((data: SensorMessage): Buffer => {
+    const header = {
+      sequence: data.seq,
+      flags: (data.seq === 0 ? PACKET_FLAG.SESSION_START : 0) | clockFlag,
+    };
+    const tsOffset = toCompactTimestamp(data.ts);
+
+    if (orientationMode === 'quaternion') {
+      const q = eulerToQuaternion(data.ra, data.rb, data.rg, quaternionRef.current);
+
+      if (packetPrecision === 'compact') {
+        const packetBuffer = nextPacketBuffer(SENSOR_QUAT_COMPACT_PACKET_SIZE);
+        encodeCompactQuaternionSensorPacketInto(
+          packetBuffer,
+          {
+            qx: q.x,
+            qy: q.y,
+            qz: q.z,
+            qw: q.w,
+            ga: data.ga,
+            gb: data.gb,
+            gg: data.gg,
+            ax: data.ax,
+            ay: data.ay,
+            az: data.az,
+            tsOffset,
+          },
+          header,
+        );
+        return packetBuffer;
+      }
+
+      const packetBuffer = nextPacketBuffer(SENSOR_QUAT_PACKET_SIZE);
+      encodeQuaternionSensorPacketInto(
+        packetBuffer,
+        {
+          qx: q.x,
+          qy: q.y,
+          qz: q.z,
+          qw: q.w,
+          ga: data.ga,
+          gb: data.gb,
+          gg: data.gg,
+          ax: data.ax,
+          ay: data.ay,
+          az: data.az,
+          ts: data.ts,
+        },
+        header,
+      );
+      return packetBuffer;
+    }
+
+    if (packetPrecision === 'compact') {
+      const packetBuffer = nextPacketBuffer(SENSOR_COMPACT_PACKET_SIZE);
+      encodeCompactSensorPacketInto(
+        packetBuffer,
+        {
+          ra: data.ra,
+          rb: data.rb,
+          rg: data.rg,
+          ga: data.ga,
+          gb: data.gb,
+          gg: data.gg,
+          ax: data.ax,
+          ay: data.ay,
+          az: data.az,
+          tsOffset,
+        },
+        header,
+      );
+      return packetBuffer;
+    }
+
+    const packetBuffer = nextPacketBuffer(SENSOR_PACKET_V2_SIZE);
+    encodeSensorPacketV2Into(
+      packetBuffer,
+      {
         ra: data.ra,
         rb: data.rb,
         rg: data.rg,
@@ -273,12 +660,189 @@ export function useSensorStream({
         ay: data.ay,
         az: data.az,
         ts: data.ts,
-      });
-      return udpSend(packetBuffer);
-    } else {
-      return wsSend(JSON.stringify(data));
+      },
+      header,
+    );
+    return packetBuffer;
+  }, [clockFlag, nextPacketBuffer, orientationMode, packetPrecision, toCompactTimestamp]);
+
+  const send = useCallback((data: SensorMessage): boolean => {
+    if (transportMode === 'udp') {
+      return udpSend(encodeBinarySensorPacket(data));
+    }
+    if (wsEncoding === 'binary') {
+      return wsSend(encodeBinarySensorPacket(data));
     }
-  }, [transportMode, udpSend, wsSend]);
+
+    if (orientationMode === 'quaternion') {
+      const q = eulerToQuaternion(data.ra, data.rb, data.rg, quaternionRef.current);
+      const payload: QuaternionSensorMessage = {
+        type: 'sensor',
+        device: 'phone',
+        qx: q.x,
+        qy: q.y,
+        qz: q.z,
+        qw: q.w,
+        ga: data.ga,
+        gb: data.gb,
+        gg: data.gg,
+        ax: data.ax,
+        ay: data.ay,
+        az: data.az,
+        ts: data.ts,
+        seq: data.seq,
+      };
+      return wsSendMessage(payload);
+    }
+
+    return wsSendMessage(data);
+  }, [encodeBinarySensorPacket, orientationMode, transportMode, udpSend, wsEncoding, wsSend, wsSendMessage]);
+
+  /**
+   * Send the first `count` pending samples, oldest first. Over UDP, or WebSocket
+   * with binary frames, they are split into as few batch packets as fit the
+   * datagram size limit. Returns how many samples were sent, stopping at the
+   * first failed send.
+   */
+  const sendBatch = useCallback((samples: SensorSample[], count: number, firstSequence: number): number => {
+    if (transportMode === 'udp' || wsEncoding === 'binary') {
+      const sendPacket = transportMode === 'udp' ? udpSend : wsSend;
+      const samplesPerDatagram = maxSensorBatchSamples(sampleFormat);
+      let sent = 0;
+      while (sent < count) {
+        const chunkSize = Math.min(samplesPerDatagram, count - sent);
+        const sequence = (firstSequence + sent) % SEQUENCE_MODULO;
+        const packetBuffer = nextPacketBuffer(MAX_SENSOR_BATCH_PACKET_SIZE).subarray(
+          0,
+          sensorBatchPacketSize(sampleFormat, chunkSize),
+        );
+        encodeSensorBatchPacketInto(
+          packetBuffer,
+          sampleFormat,
+          samples,
+          chunkSize,
+          { sequence, flags: (sequence === 0 ? PACKET_FLAG.SESSION_START : 0) | clockFlag },
+          sent,
+        );
+        if (!sendPacket(packetBuffer)) {
+          break;
+        }
+        sent += chunkSize;
+      }
+      return sent;
+    }
+
+    const payload: SensorBatchMessage = {
+      type: 'sensor_batch',
+      device: 'phone',
+      samples: [],
+    };
+    for (let i = 0; i < count; i += 1) {
+      const sample = samples[i];
+      const seq = (firstSequence + i) % SEQUENCE_MODULO;
+      const motion = {
+        ga: sample.ga,
+        gb: sample.gb,
+        gg: sample.gg,
+        ax: sample.ax,
+        ay: sample.ay,
+        az: sample.az,
+        ts: sample.ts,
+        seq,
+      };
+      payload.samples.push(
+        orientationMode === 'quaternion'
+          ? { qx: sample.qx, qy: sample.qy, qz: sample.qz, qw: sample.qw, ...motion }
+          : { ra: sample.ra, rb: sample.rb, rg: sample.rg, ...motion },
+      );
+    }
+    return wsSendMessage(payload) ? count : 0;
+  }, [
+    clockFlag,
+    nextPacketBuffer,
+    orientationMode,
+    sampleFormat,
+    transportMode,
+    udpSend,
+    wsEncoding,
+    wsSend,
+    wsSendMessage,
+  ]);
+
+  /**
+   * Send the first `count` pending samples over UDP, each datagram led by up to
+   * redundancyDepth samples that were already sent. Returns how many new samples
+   * were sent, stopping at the first failed send.
+   */
+  const sendRedundant = useCallback((samples: SensorSample[], count: number, firstSequence: number): number => {
+    const history = sentHistoryRef.current;
+    const historyCount = sentHistoryCountRef.current;
+    // History and new samples side by side, so a datagram's redundant prefix can span both.
+    const scratch = redundancyScratchRef.current;
+    scratch.length = 0;
+    for (let i = 0; i < historyCount; i += 1) {
+      scratch.push(history[i]);
+    }
+    for (let i = 0; i < count; i += 1) {
+      scratch.push(samples[i]);
+    }
+
+    const newSamplesPerDatagram = maxRedundantSensorSamples(sampleFormat) - redundancyDepth;
+    let sent = 0;
+    while (sent < count) {
+      const chunkSize = Math.min(newSamplesPerDatagram, count - sent);
+      const redundantCount = Math.min(redundancyDepth, historyCount + sent);
+      const start = historyCount + sent - redundantCount;
+      const sequence = (firstSequence + sent - redundantCount + SEQUENCE_MODULO) % SEQUENCE_MODULO;
+      const packetBuffer = nextPacketBuffer(MAX_SENSOR_BATCH_PACKET_SIZE).subarray(
+        0,
+        sensorRedundantPacketSize(sampleFormat, redundantCount + chunkSize),
+      );
+      encodeRedundantSensorPacketInto(
+        packetBuffer,
+        sampleFormat,
+        scratch,
+        start,
+        redundantCount + chunkSize,
+        redundantCount,
+        {
+          sequence,
+          flags: (sequence === 0 && redundantCount === 0 ? PACKET_FLAG.SESSION_START : 0) | clockFlag,
+        },
+      );
+      if (!udpSend(packetBuffer)) {
+        break;
+      }
+      sent += chunkSize;
+      redundantSamplesSentRef.current += redundantCount;
+    }
+    scratch.length = 0;
+    return sent;
+  }, [clockFlag, nextPacketBuffer, redundancyDepth, sampleFormat, udpSend]);
+
+  /** Copy the last of `count` just-sent samples into the redundancy history. */
+  const rememberSentSamples = useCallback((samples: SensorSample[], count: number) => {
+    const history = sentHistoryRef.current;
+    for (let i = Math.max(0, count - redundancyDepth); i < count; i += 1) {
+      if (sentHistoryCountRef.current === redundancyDepth) {
+        history.push(history.shift()!);
+        sentHistoryCountRef.current -= 1;
+      }
+      const index = sentHistoryCountRef.current;
+      if (index === history.length) {
+        history.push(createSensorSample());
+      }
+      Object.assign(history[index], samples[i]);
+      sentHistoryCountRef.current = index + 1;
+    }
+  }, [redundancyDepth]);
+
+  const onSample = useCallback((listener: SensorSampleListener) => {
+    sampleListenersRef.current.add(listener);
+    return () => {
+      sampleListenersRef.current.delete(listener);
+    };
+  }, []);
 
   const requestCalibration = useCallback((): boolean => {
     if (!isConnected) {
@@ -292,13 +856,13 @@ export function useSensorStream({
       return udpSend(commandPacket);
     }
 
-    const payload: CalibrationPayload = {
+    const payload: CalibrateMessage = {
       type: 'calibrate',
       device: 'phone',
       ts: now,
     };
-    return wsSend(JSON.stringify(payload));
-  }, [isConnected, transportMode, udpSend, wsSend]);
+    return wsSendMessage(payload);
+  }, [isConnected, transportMode, udpSend, wsSendMessage]);
 
   const flushPendingPayload = useCallback(() => {
     if (!hasPendingPayloadRef.current) {
@@ -318,13 +882,77 @@ export function useSensorStream({
       return;
     }
 
-    const success = send(pendingPayloadRef.current);
+    if (sampleMode === 'batched') {
+      const samples = batchedSamplesRef.current;
+      const count = batchedSampleCountRef.current;
+      let sent: number;
+      if (redundancyDepth > 0) {
+        sent = sendRedundant(samples, count, sequenceRef.current);
+        rememberSentSamples(samples, sent);
+      } else {
+        sent = sendBatch(samples, count, sequenceRef.current);
+      }
+      if (sent > 0) {
+        // Recycle the sent sample objects to the end of the pool.
+        samples.push(...samples.splice(0, sent));
+        batchedSampleCountRef.current -= sent;
+        hasPendingPayloadRef.current = batchedSampleCountRef.current > 0;
+        // Every sample carries its own sequence number, so packetsSent counts samples here.
+        packetsSentRef.current += sent;
+        sequenceRef.current = (sequenceRef.current + sent) % SEQUENCE_MODULO;
+        lastSentRef.current = now;
+      }
+      return;
+    }
+
+    const payload = pendingPayloadRef.current;
+    payload.seq = sequenceRef.current;
+    let success: boolean;
+    if (redundancyDepth > 0) {
+      const latestSamples = latestSampleRef.current;
+      const sample = latestSamples[0];
+      sample.ra = payload.ra;
+      sample.rb = payload.rb;
+      sample.rg = payload.rg;
+      if (orientationMode === 'quaternion') {
+        const q = eulerToQuaternion(payload.ra, payload.rb, payload.rg, quaternionRef.current);
+        sample.qx = q.x;
+        sample.qy = q.y;
+        sample.qz = q.z;
+        sample.qw = q.w;
+      }
+      sample.ga = payload.ga;
+      sample.gb = payload.gb;
+      sample.gg = payload.gg;
+      sample.ax = payload.ax;
+      sample.ay = payload.ay;
+      sample.az = payload.az;
+      sample.ts = payload.ts;
+      sample.tsOffset = toCompactTimestamp(payload.ts);
+      success = sendRedundant(latestSamples, 1, payload.seq) === 1;
+      if (success) {
+        rememberSentSamples(latestSamples, 1);
+      }
+    } else {
+      success = send(payload);
+    }
     if (success) {
       hasPendingPayloadRef.current = false;
       packetsSentRef.current += 1;
+      sequenceRef.current = (sequenceRef.current + 1) % SEQUENCE_MODULO;
       lastSentRef.current = now;
     }
-  }, [send, throttleInterval]);
+  }, [
+    orientationMode,
+    redundancyDepth,
+    rememberSentSamples,
+    sampleMode,
+    send,
+    sendBatch,
+    sendRedundant,
+    throttleInterval,
+    toCompactTimestamp,
+  ]);
 
   const queueLatestPayload = useCallback((
     ra: number,
@@ -338,6 +966,48 @@ export function useSensorStream({
     az: number,
     ts: number,
   ) => {
+    const clock = clockEstimateRef.current;
+    const sampleTs = usesServerClock && clock ? toServerTime(clock, ts) : ts;
+
+    if (sampleMode === 'batched') {
+      const samples = batchedSamplesRef.current;
+      if (!hasPendingPayloadRef.current) {
+        batchedSampleCountRef.current = 0;
+      }
+      if (batchedSampleCountRef.current === MAX_BATCHED_SAMPLES) {
+        samples.push(samples.shift()!);
+        batchedSampleCountRef.current -= 1;
+      }
+      const index = batchedSampleCountRef.current;
+      if (index === samples.length) {
+        samples.push(createSensorSample());
+      }
+
+      const sample = samples[index];
+      sample.ra = ra;
+      sample.rb = rb;
+      sample.rg = rg;
+      if (orientationMode === 'quaternion') {
+        const q = eulerToQuaternion(ra, rb, rg, quaternionRef.current);
+        sample.qx = q.x;
+        sample.qy = q.y;
+        sample.qz = q.z;
+        sample.qw = q.w;
+      }
+      sample.ga = ga;
+      sample.gb = gb;
+      sample.gg = gg;
+      sample.ax = ax;
+      sample.ay = ay;
+      sample.az = az;
+      sample.ts = sampleTs;
+      sample.tsOffset = toCompactTimestamp(sampleTs);
+      batchedSampleCountRef.current = index + 1;
+      hasPendingPayloadRef.current = true;
+      flushPendingPayload();
+      return;
+    }
+
     const payload = pendingPayloadRef.current;
     payload.ra = ra;
     payload.rb = rb;
@@ -348,10 +1018,10 @@ export function useSensorStream({
     payload.ax = ax;
     payload.ay = ay;
     payload.az = az;
-    payload.ts = ts;
+    payload.ts = sampleTs;
     hasPendingPayloadRef.current = true;
     flushPendingPayload();
-  }, [flushPendingPayload]);
+  }, [flushPendingPayload, orientationMode, sampleMode, toCompactTimestamp, usesServerClock]);
 
   useEffect(() => {
     if (!isConnected) {
@@ -363,6 +1033,7 @@ export function useSensorStream({
     clearPacketCounterInterval();
     packetCounterIntervalRef.current = setInterval(() => {
       setPacketsSent(packetsSentRef.current);
+      setRedundantSamplesSent(redundantSamplesSentRef.current);
     }, PACKET_COUNTER_UPDATE_INTERVAL_MS);
 
     return () => {
@@ -370,72 +1041,79 @@ export function useSensorStream({
     };
   }, [clearPacketCounterInterval, isConnected]);
 
-  useEffect(() => {
-    if (subscriptionRef.current) {
-      subscriptionRef.current.remove();
-      subscriptionRef.current = null;
+  // Every reading, whatever its source, takes this path to the UI, listeners and the send queue.
+  const handleMotion = useCallback((rotation: Euler, gyroData: Euler, accelData: Vec3, now: number) => {
+    if (now - lastSensorUiUpdateRef.current >= SENSOR_UI_UPDATE_INTERVAL_MS) {
+      setSensorData({ rotation, gyro: gyroData, accel: accelData });
+      lastSensorUiUpdateRef.current = now;
+    }
+
+    for (const listener of sampleListenersRef.current) {
+      listener({ rotation, gyro: gyroData, accel: accelData }, now);
     }
 
+    queueLatestPayload(
+      rotation.alpha,
+      rotation.beta,
+      rotation.gamma,
+      gyroData.alpha,
+      gyroData.beta,
+      gyroData.gamma,
+      accelData.x,
+      accelData.y,
+      accelData.z,
+      now,
+    );
+  }, [queueLatestPayload]);
+
+  // Sources deliver through this ref, so a change in the send path never restarts them.
+  const handleMotionRef = useRef(handleMotion);
+
+  useEffect(() => {
+    handleMotionRef.current = handleMotion;
+  }, [handleMotion]);
+
+  useEffect(() => {
     clearSendTimeout();
     hasPendingPayloadRef.current = false;
+    // The history must end at the current sequence; restart it whenever the send path changes.
+    sentHistoryCountRef.current = 0;
+
+    return () => {
+      clearSendTimeout();
+      hasPendingPayloadRef.current = false;
+    };
+  }, [clearSendTimeout, isConnected, queueLatestPayload, transportMode]);
 
+  useEffect(() => {
     if (DEBUG_SENSOR_LOGS) {
-      console.log('[Sensor] Streaming effect: isConnected=%s isSensorAvailable=%s transport=%s', isConnected, isSensorAvailable, transportMode);
+      console.log('[Sensor] Streaming effect: isConnected=%s isSensorAvailable=%s source=%s', isConnected, isSensorAvailable, source.kind);
     }
-    
-    if (isConnected && isSensorAvailable) {
-      if (DEBUG_SENSOR_LOGS) {
-        console.log('[Sensor] Starting DeviceMotion listener');
-      }
-      subscriptionRef.current = DeviceMotion.addListener((measurement: DeviceMotionMeasurement) => {
-        const rot = measurement.rotation;
-        const gyro = measurement.rotationRate;
-        const accel = measurement.acceleration;
-
-        const rotation: Euler = {
-          alpha: round4(rot.alpha),
-          beta: round4(rot.beta),
-          gamma: round4(rot.gamma),
-        };
-
-        const gyroData: Euler = gyro
-          ? { alpha: round4(gyro.alpha), beta: round4(gyro.beta), gamma: round4(gyro.gamma) }
-          : ZERO_EULER;
-
-        const accelData: Vec3 = accel
-          ? { x: round4(accel.x), y: round4(accel.y), z: round4(accel.z) }
-          : ZERO_VEC3;
-
-        const now = Date.now();
-        if (now - lastSensorUiUpdateRef.current >= SENSOR_UI_UPDATE_INTERVAL_MS) {
-          setSensorData({ rotation, gyro: gyroData, accel: accelData });
-          lastSensorUiUpdateRef.current = now;
-        }
 
-        queueLatestPayload(
-          rotation.alpha,
-          rotation.beta,
-          rotation.gamma,
-          gyroData.alpha,
-          gyroData.beta,
-          gyroData.gamma,
-          accelData.x,
-          accelData.y,
-          accelData.z,
-          now,
-        );
-      });
+    setHasSourceEnded(false);
+    if (!isConnected || !isSensorAvailable) {
+      return;
+    }
+
+    if (DEBUG_SENSOR_LOGS) {
+      console.log('[Sensor] Starting %s source', source.kind);
     }
+    const stopSource = source.start(
+      (reading, timestamp) => {
+        handleMotionRef.current(reading.rotation, reading.gyro, reading.accel, timestamp);
+      },
+      () => {
+        if (DEBUG_SENSOR_LOGS) {
+          console.log('[Sensor] %s source ended', source.kind);
+        }
+        setHasSourceEnded(true);
+      },
+    );
 
     return () => {
-      if (subscriptionRef.current) {
-        subscriptionRef.current.remove();
-        subscriptionRef.current = null;
-      }
-      clearSendTimeout();
-      hasPendingPayloadRef.current = false;
+      stopSource();
     };
-  }, [clearSendTimeout, isConnected, isSensorAvailable, queueLatestPayload, transportMode]);
+  }, [isConnected, isSensorAvailable, source]);
 
   useEffect(() => {
     return () => {
@@ -447,7 +1125,7 @@ export function useSensorStream({
 
   return {
     sensorData,
-    isStreaming: isConnected && isSensorAvailable,
+    isStreaming: isConnected && isSensorAvailable && !hasSourceEnded,
     isConnected,
     connect,
     disconnect,
@@ -455,6 +1133,22 @@ export function useSensorStream({
     packetsSent,
     connectionState,
     latency,
+    connectionQuality,
     transportMode,
+    isFallbackActive,
+    packetPrecision,
+    sampleMode,
+    redundancy: {
+      depth: redundancyDepth,
+      redundantSamplesSent,
+      recoveredSamples: receiverStats?.recoveredSamples,
+      lostSamples: receiverStats?.lostSamples,
+    },
+    serverCapabilities,
+    wsEncoding,
+    clockOffset: clockEstimate?.offset,
+    clockDrift: clockEstimate?.drift,
+    onMessage,
+    onSample,
   };
 }
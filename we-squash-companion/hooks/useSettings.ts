@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { readJsonDocument, writeJsonDocument } from '@/utils/persistentStore';
+import {
+  DEFAULT_SETTINGS,
+  applySettingsPatch,
+  migrateSettings,
+  serializeSettings,
+  type AppSettings,
+  type SettingsPatch,
+} from '@/utils/settings';
+
+const TAG = '[Settings]';
+const SETTINGS_DOCUMENT = 'settings.json';
+const DEBUG_SETTINGS_LOGS = false;
+
+function debugLog(...args: unknown[]) {
+  if (DEBUG_SETTINGS_LOGS) {
+    console.log(...args);
+  }
+}
+
+interface SettingsSnapshot {
+  settings: AppSettings;
+  /** False until the stored settings have been read. */
+  isLoaded: boolean;
+}
+
+interface UseSettingsReturn extends SettingsSnapshot {
+  /** Change some settings; the result is clamped to valid values and saved. */
+  updateSettings: (patch: SettingsPatch) => void;
+  resetSettings: () => void;
+}
+
+// One store shared by every screen, so edits on the settings screen reach the
+// streaming hooks while they run.
+let snapshot: SettingsSnapshot = { settings: DEFAULT_SETTINGS, isLoaded: false };
+let loadPromise: Promise<void> | null = null;
+// Edits made before the stored settings are read are replayed on top of them.
+let pendingEdits: ((current: AppSettings) => AppSettings)[] | null = [];
+const listeners = new Set<() => void>();
+
+function publish(next: SettingsSnapshot) {
+  snapshot = next;
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getSnapshot() {
+  return snapshot;
+}
+
+function loadSettings(): Promise<void> {
+  loadPromise ??= readJsonDocument(SETTINGS_DOCUMENT).then((document) => {
+    const edits = pendingEdits ?? [];
+    pendingEdits = null;
+    const settings = edits.reduce((current, edit) => edit(current), migrateSettings(document));
+    debugLog(TAG, 'Loaded settings:', settings);
+    publish({ settings, isLoaded: true });
+    if (edits.length > 0) {
+      writeJsonDocument(SETTINGS_DOCUMENT, serializeSettings(settings));
+    }
+  });
+  return loadPromise;
+}
+
+function editSettings(edit: (current: AppSettings) => AppSettings) {
+  const settings = edit(snapshot.settings);
+  publish({ settings, isLoaded: snapshot.isLoaded });
+  if (pendingEdits) {
+    pendingEdits.push(edit);
+    return;
+  }
+  writeJsonDocument(SETTINGS_DOCUMENT, serializeSettings(settings));
+}
+
+export function useSettings(): UseSettingsReturn {
+  const current = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    void loadSettings();
+  }, []);
+
+  const updateSettings = useCallback((patch: SettingsPatch) => {
+    debugLog(TAG, 'Updating settings:', patch);
+    editSettings((current) => applySettingsPatch(current, patch));
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    debugLog(TAG, 'Resetting settings');
+    editSettings(() => DEFAULT_SETTINGS);
+  }, []);
+
+  return {
+    settings: current.settings,
+    isLoaded: current.isLoaded,
+    updateSettings,
+    resetSettings,
+  };
+}
@@ -1,13 +1,58 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
 import dgram from 'react-native-udp';
 import { Buffer } from 'buffer';
-import { encodeHeartbeatPacket, decodeHeartbeatResponse } from '@/utils/binaryProtocol';
-
-type ConnectionState = 'idle' | 'connecting' | 'open' | 'closed' | 'error';
+import {
+  PACKET_TYPE,
+  appendPacketMac,
+  encodeHeartbeatPacket,
+  encodeHelloPacket,
+  encodeTimeSyncRequestPacket,
+  decodeHeartbeatResponse,
+  decodeServerMessage,
+  decodeTimeSyncResponse,
+  decodeWelcomePacket,
+  encodeSessionPacket,
+  parsePairingKey,
+  type ClientHello,
+  type ReceiverStats,
+  type ServerCapabilities,
+  type ServerMessage,
+} from '@/utils/binaryProtocol';
+import { createClockSample, estimateClock, type ClockEstimate, type ClockSample } from '@/utils/clockSync';
+import {
+  EMPTY_CONNECTION_QUALITY,
+  createConnectionQualityTracker,
+  recordHeartbeatAnswered,
+  recordHeartbeatSent,
+  recordSendResult,
+  resetConnectionQuality,
+  summarizeConnectionQuality,
+  type ConnectionQuality,
+} from '@/utils/connectionQuality';
+import { DEFAULT_SETTINGS, type HeartbeatSettings } from '@/utils/settings';
+
+type ConnectionState = 'idle' | 'connecting' | 'open' | 'degraded' | 'closed' | 'error';
+type ServerMessageListener = (message: ServerMessage) => void;
+
+interface UdpSession {
+  ip: string;
+  port: number;
+  token: Buffer;
+}
 
 const TAG = '[UDP]';
-const HEARTBEAT_INTERVAL = 5000;
-const HEARTBEAT_TIMEOUT = 15000;
+// A data send within this window counts as streaming.
+const STREAMING_ACTIVITY_WINDOW_MS = 1000;
+// Hellos are resent until a welcome arrives, since either datagram may be lost.
+const HELLO_RETRY_INTERVAL_MS = 500;
+const DEFAULT_HANDSHAKE_TIMEOUT_MS = 5000;
+const TIME_SYNC_INITIAL_BURST = 8;
+const TIME_SYNC_RESYNC_BURST = 4;
+const TIME_SYNC_BURST_SPACING_MS = 100;
+const TIME_SYNC_RESYNC_INTERVAL_MS = 15000;
+const MAX_CLOCK_SAMPLES = 64;
+const QUALITY_UPDATE_INTERVAL_MS = 1000;
 const DEBUG_UDP_LOGS = false;
 
 function debugLog(...args: unknown[]) {
@@ -23,39 +68,144 @@ interface UseUDPSocketReturn {
   send: (data: Buffer) => boolean;
   connectionState: ConnectionState;
   latency: number | undefined;
+  /** Latest receiver counters from the server's heartbeat responses, if it reports them. */
+  receiverStats: ReceiverStats | undefined;
+  /** Server clock estimate from time sync exchanges; undefined until the first response. */
+  clockEstimate: ClockEstimate | undefined;
+  quality: ConnectionQuality;
+  /** Server features from the handshake; undefined until the welcome, or when no handshake runs. */
+  capabilities: ServerCapabilities | undefined;
+  /** Subscribe to messages the server sends down the link. Returns an unsubscribe function. */
+  onMessage: (listener: ServerMessageListener) => () => void;
 }
 
 interface UseUDPSocketOptions {
   enableHeartbeat?: boolean;
+  maxReconnectAttempts?: number;
+  baseReconnectDelay?: number;
+  maxReconnectDelay?: number;
+  enableAppStateAwareness?: boolean;
+  /**
+   * Heartbeat timings. Heartbeats probe fast while data is flowing and back off
+   * towards the idle maximum otherwise. Changes apply from the next heartbeat.
+   */
+  heartbeat?: HeartbeatSettings;
+  /** Run time sync exchanges while open. Only enable for servers that answer them. */
+  enableTimeSync?: boolean;
+  /**
+   * Open every link with a hello/welcome handshake, reporting 'open' only once the
+   * welcome arrives. Only set for servers that answer hellos. If the welcome carries
+   * a session token, later packets are sent inside session packets and re-binds
+   * resume the same session.
+   */
+  hello?: ClientHello;
+  /**
+   * How long to retry hellos before giving up on the welcome. The link then opens
+   * without capabilities once the server answers a heartbeat.
+   */
+  handshakeTimeout?: number;
+  /**
+   * Hex pairing key shared with the server through its QR code. Data sent with
+   * `send` is then authenticated with a truncated HMAC (see appendPacketMac).
+   */
+  pairingKey?: string;
 }
 
 export function useUDPSocket({
   enableHeartbeat = true,
+  maxReconnectAttempts = 5,
+  baseReconnectDelay = 1000,
+  maxReconnectDelay = 30000,
+  enableAppStateAwareness = true,
+  heartbeat = DEFAULT_SETTINGS.heartbeat,
+  enableTimeSync = false,
+  hello,
+  handshakeTimeout = DEFAULT_HANDSHAKE_TIMEOUT_MS,
+  pairingKey,
 }: UseUDPSocketOptions = {}): UseUDPSocketReturn {
   const [connectionState, setConnectionState] = useState<ConnectionState>('idle');
   const [latency, setLatency] = useState<number | undefined>(undefined);
+  const [receiverStats, setReceiverStats] = useState<ReceiverStats | undefined>(undefined);
+  const [clockEstimate, setClockEstimate] = useState<ClockEstimate | undefined>(undefined);
+  const [quality, setQuality] = useState<ConnectionQuality>(EMPTY_CONNECTION_QUALITY);
+  const [capabilities, setCapabilities] = useState<ServerCapabilities | undefined>(undefined);
 
   const socketRef = useRef<ReturnType<typeof dgram.createSocket> | null>(null);
   const destIpRef = useRef<string>('');
   const destPortRef = useRef<number>(0);
-  const heartbeatIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const heartbeatTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const missedHeartbeatsRef = useRef(0);
+  const idleHeartbeatIntervalRef = useRef(heartbeat.idleMinIntervalMs);
+  const heartbeatSettingsRef = useRef(heartbeat);
+  const lastHeartbeatResponseAtRef = useRef(0);
+  const lastSendAtRef = useRef(0);
   const isConnectingRef = useRef(false);
   const manualDisconnectRef = useRef(false);
-
-  const isConnected = connectionState === 'open';
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const appStateRef = useRef<AppStateStatus>('active');
+  const timeSyncBurstTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const timeSyncIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const clockSamplesRef = useRef<ClockSample[]>([]);
+  const qualityTrackerRef = useRef(createConnectionQualityTracker());
+  const messageListenersRef = useRef(new Set<ServerMessageListener>());
+  const helloRef = useRef(hello);
+  const helloIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const handshakeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const awaitingWelcomeRef = useRef(false);
+  // Kept across re-binds so the server recognizes the phone; dropped on manual disconnect.
+  const sessionRef = useRef<UdpSession | null>(null);
+
+  const pairingKeyBytes = useMemo(() => (pairingKey ? parsePairingKey(pairingKey) : null), [pairingKey]);
+
+  // A degraded link is still usable; it only means recent heartbeats went unanswered.
+  const isConnected = connectionState === 'open' || connectionState === 'degraded';
 
   const clearHeartbeatTimers = useCallback(() => {
-    if (heartbeatIntervalRef.current) {
-      clearInterval(heartbeatIntervalRef.current);
-      heartbeatIntervalRef.current = null;
-    }
     if (heartbeatTimeoutRef.current) {
       clearTimeout(heartbeatTimeoutRef.current);
       heartbeatTimeoutRef.current = null;
     }
   }, []);
 
+  const clearHelloTimer = useCallback(() => {
+    if (helloIntervalRef.current) {
+      clearInterval(helloIntervalRef.current);
+      helloIntervalRef.current = null;
+    }
+    if (handshakeTimeoutRef.current) {
+      clearTimeout(handshakeTimeoutRef.current);
+      handshakeTimeoutRef.current = null;
+    }
+  }, []);
+
+  const clearReconnectTimer = useCallback(() => {
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+  }, []);
+
+  const clearTimeSyncTimers = useCallback(() => {
+    if (timeSyncBurstTimeoutRef.current) {
+      clearTimeout(timeSyncBurstTimeoutRef.current);
+      timeSyncBurstTimeoutRef.current = null;
+    }
+    if (timeSyncIntervalRef.current) {
+      clearInterval(timeSyncIntervalRef.current);
+      timeSyncIntervalRef.current = null;
+    }
+  }, []);
+
+  // Inside a session packet once the server has issued a token.
+  const sendToServer = useCallback((packet: Buffer) => {
+    const socket = socketRef.current;
+    if (!socket) return;
+    const session = sessionRef.current;
+    const data = session ? encodeSessionPacket(session.token, packet) : packet;
+    socket.send(data, 0, data.length, destPortRef.current, destIpRef.current);
+  }, []);
+
   const cleanupSocket = useCallback(() => {
     if (socketRef.current) {
       try {
@@ -70,54 +220,186 @@ export function useUDPSocket({
   const handleHeartbeatResponse = useCallback((buf: Buffer) => {
     const response = decodeHeartbeatResponse(buf);
     if (response) {
-      const rtt = Date.now() - response.timestamp;
+      const now = Date.now();
+      const rtt = now - response.timestamp;
       setLatency(rtt);
+      recordHeartbeatAnswered(qualityTrackerRef.current, response.timestamp, now);
+      if (response.stats) {
+        setReceiverStats(response.stats);
+      }
 
-      if (connectionState !== 'open') {
-        setConnectionState('open');
+      missedHeartbeatsRef.current = 0;
+      lastHeartbeatResponseAtRef.current = now;
+      reconnectAttemptsRef.current = 0;
+
+      // Until the handshake completes, heartbeats only keep the link alive.
+      if (!awaitingWelcomeRef.current) {
+        setConnectionState((prev) => (prev === 'open' ? prev : 'open'));
       }
+    }
+  }, []);
+
+  const handleWelcome = useCallback((buf: Buffer) => {
+    const welcome = decodeWelcomePacket(buf);
+    // Answers to retried hellos arrive after the first welcome and are ignored.
+    if (!welcome || !awaitingWelcomeRef.current) return;
+
+    debugLog(TAG, `Welcome: protocol version ${welcome.capabilities.protocolVersion}`);
+    awaitingWelcomeRef.current = false;
+    clearHelloTimer();
+    setCapabilities(welcome.capabilities);
+    if (welcome.sessionToken) {
+      sessionRef.current = { ip: destIpRef.current, port: destPortRef.current, token: welcome.sessionToken };
+    }
+    missedHeartbeatsRef.current = 0;
+    lastHeartbeatResponseAtRef.current = Date.now();
+    reconnectAttemptsRef.current = 0;
+    setConnectionState('open');
+  }, [clearHelloTimer]);
+
+  const handleTimeSyncResponse = useCallback((buf: Buffer) => {
+    const response = decodeTimeSyncResponse(buf);
+    if (!response) return;
+
+    const samples = clockSamplesRef.current;
+    samples.push(createClockSample(
+      response.clientSendTime,
+      response.serverReceiveTime,
+      response.serverSendTime,
+      Date.now(),
+    ));
+    if (samples.length > MAX_CLOCK_SAMPLES) {
+      samples.shift();
+    }
+    setClockEstimate(estimateClock(samples));
+  }, []);
+
+  const handleServerMessage = useCallback((buf: Buffer) => {
+    const message = decodeServerMessage(buf);
+    if (!message) {
+      debugLog(TAG, 'Ignoring unknown or malformed server message');
+      return;
+    }
 
-      if (heartbeatTimeoutRef.current) {
-        clearTimeout(heartbeatTimeoutRef.current);
+    for (const listener of messageListenersRef.current) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error(TAG, 'Server message listener failed:', error);
       }
-      heartbeatTimeoutRef.current = setTimeout(() => {
-        debugLog(TAG, 'Heartbeat timeout - no response from server');
-        setConnectionState('closed');
-        clearHeartbeatTimers();
-      }, HEARTBEAT_TIMEOUT);
     }
-  }, [connectionState, clearHeartbeatTimers]);
+  }, []);
+
+  const onMessage = useCallback((listener: ServerMessageListener) => {
+    messageListenersRef.current.add(listener);
+    return () => {
+      messageListenersRef.current.delete(listener);
+    };
+  }, []);
 
-  const startHeartbeat = useCallback(() => {
+  const startHeartbeat = useCallback((onTimeout: () => void) => {
     if (!enableHeartbeat) return;
 
     clearHeartbeatTimers();
+    missedHeartbeatsRef.current = 0;
+    idleHeartbeatIntervalRef.current = heartbeatSettingsRef.current.idleMinIntervalMs;
+    lastHeartbeatResponseAtRef.current = Date.now();
 
-    heartbeatIntervalRef.current = setInterval(() => {
+    const sendHeartbeat = () => {
       if (socketRef.current) {
         const timestamp = Date.now();
         const heartbeatPacket = encodeHeartbeatPacket(timestamp);
-        
+        recordHeartbeatSent(qualityTrackerRef.current, timestamp);
+
         try {
-          socketRef.current.send(
-            heartbeatPacket,
-            0,
-            heartbeatPacket.length,
-            destPortRef.current,
-            destIpRef.current
-          );
+          sendToServer(heartbeatPacket);
         } catch (error) {
           console.error(TAG, 'Failed to send heartbeat:', error);
         }
       }
-    }, HEARTBEAT_INTERVAL);
+    };
 
-    heartbeatTimeoutRef.current = setTimeout(() => {
-      debugLog(TAG, 'Heartbeat timeout - no response from server');
-      setConnectionState('closed');
-      clearHeartbeatTimers();
-    }, HEARTBEAT_TIMEOUT);
-  }, [enableHeartbeat, clearHeartbeatTimers]);
+    const tick = () => {
+      const now = Date.now();
+      const timings = heartbeatSettingsRef.current;
+      const isStreaming = now - lastSendAtRef.current < STREAMING_ACTIVITY_WINDOW_MS;
+      const timeout = isStreaming ? timings.streamingTimeoutMs : timings.idleTimeoutMs;
+
+      if (now - lastHeartbeatResponseAtRef.current >= timeout) {
+        debugLog(TAG, 'Heartbeat timeout - no response from server');
+        clearHeartbeatTimers();
+        onTimeout();
+        return;
+      }
+
+      if (missedHeartbeatsRef.current >= timings.suspectAfterMissed) {
+        setConnectionState((prev) => (prev === 'open' ? 'degraded' : prev));
+      }
+
+      sendHeartbeat();
+      missedHeartbeatsRef.current += 1;
+
+      let interval: number;
+      if (isStreaming) {
+        interval = timings.streamingIntervalMs;
+        idleHeartbeatIntervalRef.current = timings.idleMinIntervalMs;
+      } else {
+        interval = Math.min(idleHeartbeatIntervalRef.current, timings.idleMaxIntervalMs);
+        // Only back off while the link answers; a suspect link keeps probing at the current pace.
+        if (missedHeartbeatsRef.current <= 1) {
+          idleHeartbeatIntervalRef.current = Math.min(
+            timings.idleMaxIntervalMs,
+            interval * 2,
+          );
+        }
+      }
+      heartbeatTimeoutRef.current = setTimeout(tick, interval);
+    };
+
+    // Probe immediately so the link opens without waiting a full interval.
+    tick();
+  }, [enableHeartbeat, clearHeartbeatTimers, sendToServer]);
+
+  const startHandshake = useCallback((clientHello: ClientHello) => {
+    clearHelloTimer();
+    awaitingWelcomeRef.current = true;
+    // Hellos go out unwrapped; a previous session's token inside asks the server to resume it.
+    const helloPacket = encodeHelloPacket(clientHello, sessionRef.current?.token);
+
+    const sendHello = () => {
+      if (socketRef.current) {
+        try {
+          socketRef.current.send(helloPacket, 0, helloPacket.length, destPortRef.current, destIpRef.current);
+        } catch (error) {
+          console.error(TAG, 'Failed to send hello:', error);
+        }
+      }
+    };
+
+    sendHello();
+    helloIntervalRef.current = setInterval(sendHello, HELLO_RETRY_INTERVAL_MS);
+    handshakeTimeoutRef.current = setTimeout(() => {
+      handshakeTimeoutRef.current = null;
+      debugLog(TAG, 'No welcome received — opening without capabilities');
+      clearHelloTimer();
+      awaitingWelcomeRef.current = false;
+      // With heartbeats on, the next answered one opens the link; a dead server times out instead.
+      if (!enableHeartbeat) {
+        reconnectAttemptsRef.current = 0;
+        setConnectionState('open');
+      }
+    }, handshakeTimeout);
+  }, [clearHelloTimer, enableHeartbeat, handshakeTimeout]);
+
+  const getNextReconnectDelay = useCallback((): number => {
+    // Exponential backoff with jitter
+    const delay = Math.min(
+      baseReconnectDelay * Math.pow(2, reconnectAttemptsRef.current),
+      maxReconnectDelay
+    );
+    // Add random jitter (±25%) to prevent thundering herd
+    return Math.floor(delay * (0.75 + Math.random() * 0.5));
+  }, [baseReconnectDelay, maxReconnectDelay]);
 
   const performConnect = useCallback((ip: string, port: number) => {
     if (isConnectingRef.current) {
@@ -135,6 +417,17 @@ export function useUDPSocket({
     manualDisconnectRef.current = false;
     setConnectionState('connecting');
     setLatency(undefined);
+    setReceiverStats(undefined);
+    setClockEstimate(undefined);
+    clockSamplesRef.current = [];
+    resetConnectionQuality(qualityTrackerRef.current);
+    setQuality(EMPTY_CONNECTION_QUALITY);
+    setCapabilities(undefined);
+    awaitingWelcomeRef.current = false;
+    const session = sessionRef.current;
+    if (session && (session.ip !== ip || session.port !== port)) {
+      sessionRef.current = null;
+    }
 
     try {
       const socket = dgram.createSocket({ type: 'udp4' });
@@ -142,43 +435,84 @@ export function useUDPSocket({
       destIpRef.current = ip;
       destPortRef.current = port;
 
+      // Drop this socket and, unless the user disconnected, bind a fresh one after a backoff.
+      const handleLinkLost = (reason: string) => {
+        if (socketRef.current !== socket) return;
+        clearHeartbeatTimers();
+        clearHelloTimer();
+        cleanupSocket();
+        isConnectingRef.current = false;
+        setConnectionState('closed');
+
+        if (manualDisconnectRef.current) {
+          debugLog(TAG, 'Manual disconnect - not reconnecting');
+          return;
+        }
+
+        if (reconnectAttemptsRef.current < maxReconnectAttempts) {
+          const delay = getNextReconnectDelay();
+          reconnectAttemptsRef.current += 1;
+          debugLog(
+            TAG,
+            `${reason} - scheduling reconnect #${reconnectAttemptsRef.current}/${maxReconnectAttempts} in ${delay}ms`,
+          );
+
+          reconnectTimeoutRef.current = setTimeout(() => {
+            reconnectTimeoutRef.current = null;
+            performConnect(destIpRef.current, destPortRef.current);
+          }, delay);
+        } else {
+          debugLog(TAG, `Max reconnect attempts (${maxReconnectAttempts}) reached - giving up`);
+          setConnectionState('error');
+        }
+      };
+
       socket.on('message', (msg: Buffer) => {
-        if (msg.length >= 9 && msg.readUInt8(0) === 0x03) {
+        if (msg.length < 1) return;
+        const packetType = msg.readUInt8(0);
+        if (packetType === PACKET_TYPE.HEARTBEAT_RESPONSE) {
           handleHeartbeatResponse(msg);
+        } else if (packetType === PACKET_TYPE.TIME_SYNC_RESPONSE) {
+          handleTimeSyncResponse(msg);
+        } else if (packetType === PACKET_TYPE.SERVER_MESSAGE) {
+          handleServerMessage(msg);
+        } else if (packetType === PACKET_TYPE.WELCOME) {
+          handleWelcome(msg);
         }
       });
 
       socket.on('error', (error) => {
+        if (socketRef.current !== socket) return;
         console.error(TAG, 'Socket error:', error);
-        setConnectionState('error');
-        isConnectingRef.current = false;
+        handleLinkLost('Socket error');
       });
 
       socket.on('close', () => {
+        // A replaced socket closing late must not tear down its successor.
+        if (socketRef.current !== socket) return;
         debugLog(TAG, 'Socket closed');
-        clearHeartbeatTimers();
-        isConnectingRef.current = false;
-        
-        if (!manualDisconnectRef.current) {
-          setConnectionState('closed');
-        }
+        handleLinkLost('Socket closed');
       });
 
       socket.bind(0, (err: Error | null | undefined) => {
         if (err) {
           console.error(TAG, 'Failed to bind socket:', err);
-          setConnectionState('error');
-          isConnectingRef.current = false;
-          cleanupSocket();
+          handleLinkLost('Bind failed');
           return;
         }
 
         debugLog(TAG, 'Socket bound successfully');
         isConnectingRef.current = false;
 
+        const clientHello = helloRef.current;
+        if (clientHello) {
+          startHandshake(clientHello);
+        }
         if (enableHeartbeat) {
-          startHeartbeat();
-        } else {
+          // The link only counts as back once the server answers a heartbeat (or the hello).
+          startHeartbeat(() => handleLinkLost('Heartbeat timeout'));
+        } else if (!clientHello) {
+          reconnectAttemptsRef.current = 0;
           setConnectionState('open');
         }
       });
@@ -188,7 +522,20 @@ export function useUDPSocket({
       isConnectingRef.current = false;
       cleanupSocket();
     }
-  }, [enableHeartbeat, startHeartbeat, handleHeartbeatResponse, cleanupSocket, clearHeartbeatTimers]);
+  }, [
+    enableHeartbeat,
+    maxReconnectAttempts,
+    getNextReconnectDelay,
+    startHandshake,
+    startHeartbeat,
+    handleHeartbeatResponse,
+    handleTimeSyncResponse,
+    handleServerMessage,
+    handleWelcome,
+    cleanupSocket,
+    clearHeartbeatTimers,
+    clearHelloTimer,
+  ]);
 
   const connect = useCallback((ip: string, port: number) => {
     if (!ip || !port) {
@@ -197,39 +544,144 @@ export function useUDPSocket({
     }
 
     debugLog(TAG, `connect() -> ${ip}:${port}`);
+    clearReconnectTimer();
     clearHeartbeatTimers();
+    clearHelloTimer();
+    reconnectAttemptsRef.current = 0;
+    isConnectingRef.current = false;
     cleanupSocket();
     performConnect(ip, port);
-  }, [performConnect, clearHeartbeatTimers, cleanupSocket]);
+  }, [performConnect, clearReconnectTimer, clearHeartbeatTimers, clearHelloTimer, cleanupSocket]);
 
   const disconnect = useCallback(() => {
     debugLog(TAG, 'disconnect() called');
     manualDisconnectRef.current = true;
+    clearReconnectTimer();
     clearHeartbeatTimers();
+    clearHelloTimer();
     cleanupSocket();
+    isConnectingRef.current = false;
+    awaitingWelcomeRef.current = false;
+    sessionRef.current = null;
+    reconnectAttemptsRef.current = 0;
     setConnectionState('closed');
     setLatency(undefined);
-  }, [clearHeartbeatTimers, cleanupSocket]);
+  }, [clearReconnectTimer, clearHeartbeatTimers, clearHelloTimer, cleanupSocket]);
 
   const send = useCallback((data: Buffer): boolean => {
-    if (socketRef.current && connectionState === 'open') {
+    let success = false;
+    if (socketRef.current && isConnected) {
       try {
-        socketRef.current.send(data, 0, data.length, destPortRef.current, destIpRef.current);
-        return true;
+        sendToServer(pairingKeyBytes ? appendPacketMac(data, pairingKeyBytes) : data);
+        success = true;
+        lastSendAtRef.current = Date.now();
       } catch (error) {
         console.error(TAG, 'Failed to send data:', error);
-        return false;
       }
     }
-    return false;
-  }, [connectionState]);
+    recordSendResult(qualityTrackerRef.current, success, Date.now());
+    return success;
+  }, [isConnected, pairingKeyBytes, sendToServer]);
+
+  useEffect(() => {
+    helloRef.current = hello;
+  }, [hello]);
+
+  useEffect(() => {
+    heartbeatSettingsRef.current = heartbeat;
+  }, [heartbeat]);
+
+  useEffect(() => {
+    if (!isConnected) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      setQuality(summarizeConnectionQuality(qualityTrackerRef.current, Date.now()));
+    }, QUALITY_UPDATE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [isConnected]);
+
+  // Time sync: a burst right after the link opens for a quick first estimate, then
+  // smaller periodic bursts so the drift fit has samples spread over time.
+  useEffect(() => {
+    if (!isConnected || !enableTimeSync) {
+      clearTimeSyncTimers();
+      return;
+    }
+
+    const sendTimeSyncRequest = () => {
+      if (socketRef.current) {
+        const packet = encodeTimeSyncRequestPacket(Date.now());
+        try {
+          sendToServer(packet);
+        } catch (error) {
+          console.error(TAG, 'Failed to send time sync request:', error);
+        }
+      }
+    };
+
+    const runBurst = (remaining: number) => {
+      sendTimeSyncRequest();
+      if (remaining > 1) {
+        timeSyncBurstTimeoutRef.current = setTimeout(() => runBurst(remaining - 1), TIME_SYNC_BURST_SPACING_MS);
+      } else {
+        timeSyncBurstTimeoutRef.current = null;
+      }
+    };
+
+    runBurst(TIME_SYNC_INITIAL_BURST);
+    timeSyncIntervalRef.current = setInterval(() => {
+      if (timeSyncBurstTimeoutRef.current === null) {
+        runBurst(TIME_SYNC_RESYNC_BURST);
+      }
+    }, TIME_SYNC_RESYNC_INTERVAL_MS);
+
+    return () => {
+      clearTimeSyncTimers();
+    };
+  }, [clearTimeSyncTimers, enableTimeSync, isConnected, sendToServer]);
+
+  // App state awareness
+  useEffect(() => {
+    if (!enableAppStateAwareness) return;
+
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      const previousState = appStateRef.current;
+      appStateRef.current = nextAppState;
+
+      if (previousState === 'background' && nextAppState === 'active') {
+        // App came to foreground - check connection
+        if (
+          (connectionState === 'closed' || connectionState === 'error') &&
+          !manualDisconnectRef.current &&
+          destIpRef.current
+        ) {
+          debugLog(TAG, 'App returned to foreground, attempting reconnect');
+          clearReconnectTimer();
+          reconnectAttemptsRef.current = 0;
+          performConnect(destIpRef.current, destPortRef.current);
+        }
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [enableAppStateAwareness, connectionState, clearReconnectTimer, performConnect]);
 
   useEffect(() => {
     return () => {
+      clearReconnectTimer();
       clearHeartbeatTimers();
+      clearHelloTimer();
+      clearTimeSyncTimers();
       cleanupSocket();
     };
-  }, [clearHeartbeatTimers, cleanupSocket]);
+  }, [clearReconnectTimer, clearHeartbeatTimers, clearHelloTimer, clearTimeSyncTimers, cleanupSocket]);
 
   return {
     isConnected,
@@ -238,5 +690,10 @@ export function useUDPSocket({
     send,
     connectionState,
     latency,
+    receiverStats,
+    clockEstimate,
+    quality,
+    capabilities,
+    onMessage,
   };
 }
@@ -1,16 +1,47 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
+import {
+  EMPTY_CONNECTION_QUALITY,
+  createConnectionQualityTracker,
+  recordHeartbeatAnswered,
+  recordHeartbeatSent,
+  recordSendResult,
+  resetConnectionQuality,
+  summarizeConnectionQuality,
+  type ConnectionQuality,
+} from '@/utils/connectionQuality';
+import type { ClientHello, ServerCapabilities } from '@/utils/binaryProtocol';
+import {
+  capabilitiesFromWelcome,
+  createHelloMessage,
+  parseServerMessage,
+  serializeClientMessage,
+  type JsonClientMessage,
+  type JsonServerMessage,
+  type JsonServerMessageOfType,
+  type JsonServerMessageType,
+} from '@/utils/jsonProtocol';
 
 type ConnectionState = 'idle' | 'connecting' | 'open' | 'closing' | 'closed' | 'error';
+type MessageListener = (message: JsonServerMessage) => void;
 
 interface UseWebSocketReturn {
   isConnected: boolean;
   connect: (explicitUrl?: string) => void;
   disconnect: () => void;
-  send: (data: string | ArrayBuffer | Blob) => boolean;
-  lastMessage: string | null;
+  send: (data: string | ArrayBuffer | ArrayBufferView | Blob) => boolean;
+  sendMessage: (message: JsonClientMessage) => boolean;
+  /** Subscribe to validated server messages of one type. Returns an unsubscribe function. */
+  subscribe: <T extends JsonServerMessageType>(
+    type: T,
+    listener: (message: JsonServerMessageOfType<T>) => void,
+  ) => () => void;
+  lastMessage: JsonServerMessage | null;
   connectionState: ConnectionState;
   latency: number | undefined;
+  quality: ConnectionQuality;
+  /** Server features from the welcome; undefined before it, or for servers that predate the handshake. */
+  capabilities: ServerCapabilities | undefined;
 }
 
 interface UseWebSocketOptions {
@@ -21,11 +52,17 @@ interface UseWebSocketOptions {
   connectionTimeout?: number;
   pingInterval?: number;
   enableAppStateAwareness?: boolean;
+  /** Send this hello when the socket opens and report 'open' only once the welcome arrives. */
+  hello?: ClientHello;
+  /** How long to wait for the welcome before opening without capabilities. */
+  handshakeTimeout?: number;
 }
 
 const TAG = '[WS]';
 const DEFAULT_PING_INTERVAL = 30000; // 30 seconds
 const DEFAULT_CONNECTION_TIMEOUT = 10000; // 10 seconds
+const DEFAULT_HANDSHAKE_TIMEOUT = 5000; // 5 seconds
+const QUALITY_UPDATE_INTERVAL_MS = 1000;
 const DEBUG_WS_LOGS = false;
 
 function debugLog(...args: unknown[]) {
@@ -42,10 +79,14 @@ export function useWebSocket({
   connectionTimeout = DEFAULT_CONNECTION_TIMEOUT,
   pingInterval = DEFAULT_PING_INTERVAL,
   enableAppStateAwareness = true,
+  hello,
+  handshakeTimeout = DEFAULT_HANDSHAKE_TIMEOUT,
 }: UseWebSocketOptions): UseWebSocketReturn {
   const [connectionState, setConnectionState] = useState<ConnectionState>('idle');
-  const [lastMessage, setLastMessage] = useState<string | null>(null);
+  const [lastMessage, setLastMessage] = useState<JsonServerMessage | null>(null);
   const [latency, setLatency] = useState<number | undefined>(undefined);
+  const [quality, setQuality] = useState<ConnectionQuality>(EMPTY_CONNECTION_QUALITY);
+  const [capabilities, setCapabilities] = useState<ServerCapabilities | undefined>(undefined);
   
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectAttemptsRef = useRef(0);
@@ -57,6 +98,11 @@ export function useWebSocket({
   const manualDisconnectRef = useRef(false);
   const lastPingTimeRef = useRef<number>(0);
   const appStateRef = useRef<AppStateStatus>('active');
+  const qualityTrackerRef = useRef(createConnectionQualityTracker());
+  const listenersRef = useRef(new Map<JsonServerMessageType, Set<MessageListener>>());
+  const helloRef = useRef(hello);
+  const handshakeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const awaitingWelcomeRef = useRef(false);
 
   const isConnected = connectionState === 'open';
 
@@ -83,6 +129,10 @@ export function useWebSocket({
       clearInterval(pingIntervalRef.current);
       pingIntervalRef.current = null;
     }
+    if (handshakeTimeoutRef.current) {
+      clearTimeout(handshakeTimeoutRef.current);
+      handshakeTimeoutRef.current = null;
+    }
   }, []);
 
   const cleanupWebSocket = useCallback(() => {
@@ -100,6 +150,19 @@ export function useWebSocket({
     }
   }, []);
 
+  const dispatchMessage = useCallback((message: JsonServerMessage) => {
+    const listeners = listenersRef.current.get(message.type);
+    if (!listeners) return;
+
+    for (const listener of listeners) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error(TAG, `Listener for "${message.type}" failed:`, error);
+      }
+    }
+  }, []);
+
   const startPingInterval = useCallback(() => {
     if (pingIntervalRef.current) {
       clearInterval(pingIntervalRef.current);
@@ -108,7 +171,8 @@ export function useWebSocket({
     pingIntervalRef.current = setInterval(() => {
       if (wsRef.current?.readyState === WebSocket.OPEN) {
         lastPingTimeRef.current = Date.now();
-        wsRef.current.send(JSON.stringify({ type: 'ping', timestamp: lastPingTimeRef.current }));
+        recordHeartbeatSent(qualityTrackerRef.current, lastPingTimeRef.current);
+        wsRef.current.send(serializeClientMessage({ type: 'ping', timestamp: lastPingTimeRef.current }));
       }
     }, pingInterval);
   }, [pingInterval]);
@@ -120,6 +184,21 @@ export function useWebSocket({
     }
   }, []);
 
+  /** Report the link open once the handshake is done (or skipped) and start pinging. */
+  const completeHandshake = useCallback((serverCapabilities: ServerCapabilities | undefined) => {
+    awaitingWelcomeRef.current = false;
+    if (handshakeTimeoutRef.current) {
+      clearTimeout(handshakeTimeoutRef.current);
+      handshakeTimeoutRef.current = null;
+    }
+    setCapabilities(serverCapabilities);
+    setConnectionState('open');
+    setLatency(undefined);
+    resetConnectionQuality(qualityTrackerRef.current);
+    setQuality(EMPTY_CONNECTION_QUALITY);
+    startPingInterval();
+  }, [startPingInterval]);
+
   const getNextReconnectDelay = useCallback((): number => {
     // Exponential backoff with jitter
     const delay = Math.min(
@@ -151,7 +230,9 @@ export function useWebSocket({
     debugLog(TAG, `performConnect → ${targetUrl}`);
     isConnectingRef.current = true;
     manualDisconnectRef.current = false;
+    awaitingWelcomeRef.current = false;
     setConnectionState('connecting');
+    setCapabilities(undefined);
 
     // Set connection timeout
     connectionTimeoutRef.current = setTimeout(() => {
@@ -175,9 +256,20 @@ export function useWebSocket({
         connectionTimeoutRef.current = null;
         isConnectingRef.current = false;
         reconnectAttemptsRef.current = 0;
-        setConnectionState('open');
-        setLatency(undefined);
-        startPingInterval();
+
+        const clientHello = helloRef.current;
+        if (!clientHello) {
+          completeHandshake(undefined);
+          return;
+        }
+
+        awaitingWelcomeRef.current = true;
+        ws.send(serializeClientMessage(createHelloMessage(clientHello)));
+        handshakeTimeoutRef.current = setTimeout(() => {
+          handshakeTimeoutRef.current = null;
+          debugLog(TAG, 'No welcome received — opening without capabilities');
+          completeHandshake(undefined);
+        }, handshakeTimeout);
       };
 
       ws.onclose = (event) => {
@@ -187,6 +279,11 @@ export function useWebSocket({
         );
         clearTimeout(connectionTimeoutRef.current!);
         connectionTimeoutRef.current = null;
+        if (handshakeTimeoutRef.current) {
+          clearTimeout(handshakeTimeoutRef.current);
+          handshakeTimeoutRef.current = null;
+        }
+        awaitingWelcomeRef.current = false;
         isConnectingRef.current = false;
         stopPingInterval();
         cleanupWebSocket();
@@ -221,20 +318,28 @@ export function useWebSocket({
       };
 
       ws.onmessage = (event) => {
-        if (typeof event.data === 'string') {
-          // Handle pong messages for latency calculation
-          try {
-            const data = JSON.parse(event.data);
-            if (data.type === 'pong' && data.timestamp) {
-              const roundTripTime = Date.now() - data.timestamp;
-              setLatency(roundTripTime);
-              return;
-            }
-          } catch {
-            // Not a JSON message or not a pong
-          }
-          setLastMessage(event.data);
+        if (typeof event.data !== 'string') return;
+
+        const message = parseServerMessage(event.data);
+        if (!message) {
+          debugLog(TAG, 'Ignoring invalid message:', event.data);
+          return;
+        }
+
+        // The game answers our hello with a welcome; one without a protocol version carries no capabilities.
+        if (message.type === 'welcome' && awaitingWelcomeRef.current) {
+          completeHandshake(capabilitiesFromWelcome(message));
         }
+
+        // Handle pong messages for latency calculation
+        if (message.type === 'pong') {
+          const now = Date.now();
+          setLatency(now - message.timestamp);
+          recordHeartbeatAnswered(qualityTrackerRef.current, message.timestamp, now);
+        } else {
+          setLastMessage(message);
+        }
+        dispatchMessage(message);
       };
     } catch (err) {
       debugLog(TAG, '✗ WebSocket constructor threw:', err);
@@ -256,7 +361,7 @@ export function useWebSocket({
         }, delay);
       }
     }
-  }, [connectionTimeout, maxReconnectAttempts, getNextReconnectDelay, cleanupWebSocket, isValidWebSocketUrl, startPingInterval, stopPingInterval]);
+  }, [connectionTimeout, handshakeTimeout, maxReconnectAttempts, getNextReconnectDelay, cleanupWebSocket, completeHandshake, dispatchMessage, isValidWebSocketUrl, stopPingInterval]);
 
   const connect = useCallback((explicitUrl?: string) => {
     const targetUrl = explicitUrl ?? activeUrlRef.current;
@@ -288,19 +393,60 @@ export function useWebSocket({
     reconnectAttemptsRef.current = 0;
   }, [clearAllTimers, stopPingInterval]);
 
-  const send = useCallback((data: string | ArrayBuffer | Blob): boolean => {
+  const send = useCallback((data: string | ArrayBuffer | ArrayBufferView | Blob): boolean => {
+    let success = false;
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       try {
         wsRef.current.send(data);
-        return true;
+        success = true;
       } catch (error) {
         console.error(TAG, 'Failed to send message:', error);
-        return false;
       }
     }
-    return false;
+    recordSendResult(qualityTrackerRef.current, success, Date.now());
+    return success;
   }, []);
 
+  const sendMessage = useCallback((message: JsonClientMessage): boolean => {
+    return send(serializeClientMessage(message));
+  }, [send]);
+
+  const subscribe = useCallback(<T extends JsonServerMessageType>(
+    type: T,
+    listener: (message: JsonServerMessageOfType<T>) => void,
+  ) => {
+    // Messages are only dispatched to listeners registered for their own type.
+    const untypedListener = listener as MessageListener;
+    let listeners = listenersRef.current.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      listenersRef.current.set(type, listeners);
+    }
+    listeners.add(untypedListener);
+
+    return () => {
+      listenersRef.current.get(type)?.delete(untypedListener);
+    };
+  }, []);
+
+  useEffect(() => {
+    helloRef.current = hello;
+  }, [hello]);
+
+  useEffect(() => {
+    if (!isConnected) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      setQuality(summarizeConnectionQuality(qualityTrackerRef.current, Date.now()));
+    }, QUALITY_UPDATE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [isConnected]);
+
   // App state awareness
   useEffect(() => {
     if (!enableAppStateAwareness) return;
@@ -336,8 +482,12 @@ export function useWebSocket({
     connect,
     disconnect,
     send,
+    sendMessage,
+    subscribe,
     lastMessage,
     connectionState,
     latency,
+    quality,
+    capabilities,
   };
 }
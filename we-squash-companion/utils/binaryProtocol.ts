@@ -1,10 +1,24 @@
 import { Buffer } from 'buffer';
+import { hmacSha256 } from './hmac';
 
 export const PACKET_TYPE = {
   SENSOR: 0x01,
   HEARTBEAT: 0x02,
   HEARTBEAT_RESPONSE: 0x03,
   COMMAND: 0x04,
+  DISCOVERY_PROBE: 0x05,
+  DISCOVERY_PROBE_RESPONSE: 0x06,
+  SENSOR_QUAT: 0x07,
+  SENSOR_COMPACT: 0x08,
+  SENSOR_QUAT_COMPACT: 0x09,
+  SENSOR_BATCH: 0x0a,
+  SENSOR_REDUNDANT: 0x0b,
+  TIME_SYNC_REQUEST: 0x0c,
+  TIME_SYNC_RESPONSE: 0x0d,
+  SERVER_MESSAGE: 0x0e,
+  HELLO: 0x0f,
+  WELCOME: 0x10,
+  SESSION: 0x11,
 } as const;
 
 export const DEVICE_TYPE = {
@@ -15,9 +29,117 @@ export const COMMAND_TYPE = {
   CALIBRATE: 0x01,
 } as const;
 
+/** Message types carried in byte 1 of server message packets. */
+export const SERVER_MESSAGE_TYPE = {
+  CALIBRATION: 0x01,
+  SCORE: 0x02,
+  RALLY: 0x03,
+  TEXT: 0x04,
+} as const;
+
+/**
+ * Protocol versions carried in byte 1 of sensor packets.
+ * v1 packets have device_type (0x01 = phone) there, which reads as version 1.
+ */
+export const PROTOCOL_VERSION = {
+  V1: 0x01,
+  V2: 0x02,
+} as const;
+
+export const PACKET_FLAG = {
+  /** First packet of a streaming session; the receiver should reset its sequence tracking. */
+  SESSION_START: 0x01,
+  /** Timestamps are on the server's clock (see clock sync) rather than the phone's. */
+  SERVER_CLOCK: 0x02,
+  /** The packet ends in a PACKET_MAC_SIZE-byte MAC (see appendPacketMac). */
+  AUTHENTICATED: 0x04,
+} as const;
+
 export const SENSOR_PACKET_SIZE = 46;
+export const PACKET_HEADER_V2_SIZE = 8;
+export const SENSOR_PACKET_V2_SIZE = 52;
+export const SENSOR_QUAT_PACKET_SIZE = 56;
+export const SENSOR_COMPACT_PACKET_SIZE = 30;
+export const SENSOR_QUAT_COMPACT_PACKET_SIZE = 32;
+
+/**
+ * Fixed-point scales for compact packets (value = int16 / scale).
+ * Ranges: angles ±6.55 rad, quaternion components ±1, gyro ±3276 deg/s, accel ±327 m/s².
+ */
+export const COMPACT_SCALE = {
+  ANGLE: 5000,
+  QUATERNION: 32767,
+  GYRO: 10,
+  ACCEL: 100,
+} as const;
+
+/** Lowest discovery beacon version whose server decodes compact packets. */
+export const COMPACT_MIN_SERVER_VERSION = 2;
+
+/** Lowest discovery beacon version whose server decodes batch packets. */
+export const BATCH_MIN_SERVER_VERSION = 3;
+
+/** Lowest discovery beacon version whose server decodes redundant packets and reports recovery stats. */
+export const REDUNDANCY_MIN_SERVER_VERSION = 4;
+
+/** Lowest discovery beacon version whose server answers time sync requests. */
+export const TIME_SYNC_MIN_SERVER_VERSION = 5;
+
+/** Lowest discovery beacon version whose server answers hello packets with a welcome. */
+export const HANDSHAKE_MIN_SERVER_VERSION = 6;
+
+/** Server feature bits carried in welcome packets. */
+export const CAPABILITY_FLAG = {
+  COMPACT: 0x01,
+  BATCH: 0x02,
+  REDUNDANCY: 0x04,
+  TIME_SYNC: 0x08,
+  SERVER_MESSAGES: 0x10,
+  /** Sensor and command packets must be signed with the pairing key from the QR code. */
+  PAIRING_REQUIRED: 0x20,
+} as const;
+
+/** Single-sample packet types that can also be carried inside a batch packet. */
+export type SensorSampleFormat =
+  | typeof PACKET_TYPE.SENSOR
+  | typeof PACKET_TYPE.SENSOR_QUAT
+  | typeof PACKET_TYPE.SENSOR_COMPACT
+  | typeof PACKET_TYPE.SENSOR_QUAT_COMPACT;
+
+/** Size of one sample body (the single-sample packet minus its v2 header). */
+export const SENSOR_SAMPLE_SIZE: Record<SensorSampleFormat, number> = {
+  [PACKET_TYPE.SENSOR]: 44,
+  [PACKET_TYPE.SENSOR_QUAT]: 48,
+  [PACKET_TYPE.SENSOR_COMPACT]: 22,
+  [PACKET_TYPE.SENSOR_QUAT_COMPACT]: 24,
+};
+
+export const SENSOR_BATCH_HEADER_SIZE = 10;
+export const SENSOR_REDUNDANT_HEADER_SIZE = 11;
+/** Most previously-sent samples a redundant packet may repeat. */
+export const MAX_REDUNDANT_SAMPLES = 8;
+/** Keep batch datagrams well under a typical Wi-Fi MTU to avoid IP fragmentation. */
+export const MAX_SENSOR_BATCH_PACKET_SIZE = 1200;
+
 export const HEARTBEAT_PACKET_SIZE = 9;
+/** Heartbeat responses from servers that report receiver stats. */
+export const HEARTBEAT_RESPONSE_STATS_SIZE = 17;
 export const COMMAND_PACKET_SIZE = 10;
+export const DISCOVERY_PROBE_PACKET_SIZE = 9;
+export const TIME_SYNC_REQUEST_PACKET_SIZE = 9;
+export const TIME_SYNC_RESPONSE_PACKET_SIZE = 25;
+export const SERVER_MESSAGE_HEADER_SIZE = 10;
+export const WELCOME_PACKET_SIZE = 6;
+/** Welcomes from servers that issue session tokens. */
+export const WELCOME_SESSION_PACKET_SIZE = 14;
+export const SESSION_TOKEN_SIZE = 8;
+export const SESSION_HEADER_SIZE = 9;
+/** Pairing keys come from the game's QR code, hex encoded. */
+export const PAIRING_KEY_SIZE = 16;
+/** Truncated HMAC-SHA256 appended to authenticated packets. */
+export const PACKET_MAC_SIZE = 8;
+/** Longest app version or device model string a hello packet carries, in bytes. */
+export const MAX_HELLO_STRING_SIZE = 255;
 
 export interface SensorPacketData {
   ra: number;
@@ -32,6 +154,144 @@ export interface SensorPacketData {
   ts: number;
 }
 
+export interface QuaternionSensorPacketData {
+  qx: number;
+  qy: number;
+  qz: number;
+  qw: number;
+  ga: number;
+  gb: number;
+  gg: number;
+  ax: number;
+  ay: number;
+  az: number;
+  ts: number;
+}
+
+/** Compact packets replace the f64 timestamp with a u32 offset from the session epoch. */
+export interface CompactSensorPacketData extends Omit<SensorPacketData, 'ts'> {
+  tsOffset: number;
+}
+
+export interface CompactQuaternionSensorPacketData extends Omit<QuaternionSensorPacketData, 'ts'> {
+  tsOffset: number;
+}
+
+/**
+ * A sample carrying every field any sample format may need.
+ * Encoders pick the fields their format uses.
+ */
+export type SensorSample = SensorPacketData & QuaternionSensorPacketData & { tsOffset: number };
+
+export type DecodedSensorSample =
+  | SensorPacketData
+  | QuaternionSensorPacketData
+  | CompactSensorPacketData
+  | CompactQuaternionSensorPacketData;
+
+export interface DecodedSensorBatchPacket {
+  header: PacketHeader;
+  format: SensorSampleFormat;
+  /** Sample i has sequence header.sequence + i (mod 2^32). */
+  samples: DecodedSensorSample[];
+}
+
+export interface DecodedRedundantSensorPacket extends DecodedSensorBatchPacket {
+  /** The first redundantCount samples repeat samples sent in earlier datagrams. */
+  redundantCount: number;
+}
+
+/** Receiver-side sample counters echoed in heartbeat responses. */
+export interface ReceiverStats {
+  /** Samples never received, after redundancy recovery. */
+  lostSamples: number;
+  /** Samples whose own datagram was lost but which arrived as a redundant copy. */
+  recoveredSamples: number;
+}
+
+/** The four NTP timestamps of one time sync exchange, minus the local receive time. */
+export interface TimeSyncResponse {
+  /** Phone clock when the request was sent (echoed). */
+  clientSendTime: number;
+  /** Server clock when the request was received. */
+  serverReceiveTime: number;
+  /** Server clock when the response was sent. */
+  serverSendTime: number;
+}
+
+/** What the phone tells the server about itself in the handshake. */
+export interface ClientHello {
+  appVersion: string;
+  deviceModel: string;
+  /** Sensor readings per second the phone samples at. */
+  sensorRate: number;
+  /** Packet types the phone can send (PACKET_TYPE values). */
+  formats: number[];
+}
+
+/** What the server supports, from its welcome or inferred from its beacon version. */
+export interface ServerCapabilities {
+  protocolVersion: number;
+  compact: boolean;
+  batch: boolean;
+  redundancy: boolean;
+  timeSync: boolean;
+  serverMessages: boolean;
+  pairingRequired: boolean;
+}
+
+export interface ServerWelcome {
+  capabilities: ServerCapabilities;
+  /** Token to wrap every later packet in; absent from servers that predate sessions. */
+  sessionToken: Buffer | undefined;
+}
+
+export type CalibrationState = 'started' | 'finished';
+export type RallyEvent = 'start' | 'hit' | 'end';
+
+/** A decoded server-to-phone message. `timestamp` is on the server's clock (ms). */
+export type ServerMessage =
+  | { type: 'calibration'; timestamp: number; state: CalibrationState }
+  | { type: 'score'; timestamp: number; player: number; opponent: number }
+  | { type: 'rally'; timestamp: number; event: RallyEvent; hits: number }
+  | { type: 'text'; timestamp: number; text: string };
+
+const CALIBRATION_STATES: Record<number, CalibrationState | undefined> = {
+  0x01: 'started',
+  0x02: 'finished',
+};
+
+const RALLY_EVENTS: Record<number, RallyEvent | undefined> = {
+  0x01: 'start',
+  0x02: 'hit',
+  0x03: 'end',
+};
+
+export interface PacketHeaderV2 {
+  sequence: number;
+  flags: number;
+}
+
+export interface PacketHeader {
+  packetType: number;
+  version: number;
+  flags: number;
+  deviceType: number;
+  /** Undefined for v1 packets, which carry no sequence number. */
+  sequence: number | undefined;
+  size: number;
+}
+
+export interface DecodedSensorPacket {
+  header: PacketHeader;
+  data: SensorPacketData;
+}
+
+export interface DecodedQuaternionSensorPacket {
+  header: PacketHeader;
+  data: QuaternionSensorPacketData;
+}
+
 /**
  * Encode sensor data into a 46-byte binary packet.
  * Format (little-endian):
@@ -64,16 +324,519 @@ export function encodeSensorPacketInto(buf: Buffer, data: SensorPacketData): voi
   }
   buf.writeUInt8(PACKET_TYPE.SENSOR, 0);
   buf.writeUInt8(DEVICE_TYPE.PHONE, 1);
-  buf.writeFloatLE(data.ra, 2);
-  buf.writeFloatLE(data.rb, 6);
-  buf.writeFloatLE(data.rg, 10);
-  buf.writeFloatLE(data.ga, 14);
-  buf.writeFloatLE(data.gb, 18);
-  buf.writeFloatLE(data.gg, 22);
-  buf.writeFloatLE(data.ax, 26);
-  buf.writeFloatLE(data.ay, 30);
-  buf.writeFloatLE(data.az, 34);
-  buf.writeDoubleLE(data.ts, 38);
+  writeSensorValues(buf, data, 2);
+}
+
+/**
+ * Write the 8-byte v2 header shared by versioned packets.
+ * Format (little-endian):
+ * - Offset 0: u8 packet_type
+ * - Offset 1: u8 protocol_version (0x02)
+ * - Offset 2: u8 flags (see PACKET_FLAG)
+ * - Offset 3: u8 device_type (0x01 = phone)
+ * - Offset 4-7: u32 sequence (wraps at 2^32)
+ */
+export function writePacketHeaderV2(buf: Buffer, packetType: number, header: PacketHeaderV2): void {
+  buf.writeUInt8(packetType, 0);
+  buf.writeUInt8(PROTOCOL_VERSION.V2, 1);
+  buf.writeUInt8(header.flags & 0xff, 2);
+  buf.writeUInt8(DEVICE_TYPE.PHONE, 3);
+  buf.writeUInt32LE(header.sequence >>> 0, 4);
+}
+
+/**
+ * Read the header of a v1 or v2 packet.
+ * Returns null if the buffer is too short or carries an unknown version.
+ */
+export function readPacketHeader(buf: Buffer): PacketHeader | null {
+  if (buf.length < 2) return null;
+  const packetType = buf.readUInt8(0);
+  const version = buf.readUInt8(1);
+
+  if (version === PROTOCOL_VERSION.V1) {
+    return { packetType, version, flags: 0, deviceType: version, sequence: undefined, size: 2 };
+  }
+
+  if (version === PROTOCOL_VERSION.V2 && buf.length >= PACKET_HEADER_V2_SIZE) {
+    return {
+      packetType,
+      version,
+      flags: buf.readUInt8(2),
+      deviceType: buf.readUInt8(3),
+      sequence: buf.readUInt32LE(4),
+      size: PACKET_HEADER_V2_SIZE,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Encode sensor data into an existing 52-byte buffer using the v2 layout.
+ * Format (little-endian):
+ * - Offset 0-7: v2 header (see writePacketHeaderV2), packet_type 0x01
+ * - Offset 8-43: nine f32 values in the same order as v1 (ra..az)
+ * - Offset 44-51: f64 timestamp (Unix ms)
+ */
+export function encodeSensorPacketV2Into(buf: Buffer, data: SensorPacketData, header: PacketHeaderV2): void {
+  if (buf.length < SENSOR_PACKET_V2_SIZE) {
+    throw new Error(`Sensor packet buffer too small: got ${buf.length}, expected ${SENSOR_PACKET_V2_SIZE}`);
+  }
+  writePacketHeaderV2(buf, PACKET_TYPE.SENSOR, header);
+  writeSensorValues(buf, data, PACKET_HEADER_V2_SIZE);
+}
+
+/**
+ * Decode a v1 (46-byte) or v2 (52-byte) sensor packet.
+ * Returns null if the buffer is not a well-formed sensor packet.
+ */
+export function decodeSensorPacket(buf: Buffer): DecodedSensorPacket | null {
+  const header = readPacketHeader(buf);
+  if (!header || header.packetType !== PACKET_TYPE.SENSOR) return null;
+
+  const expectedSize = header.version === PROTOCOL_VERSION.V2 ? SENSOR_PACKET_V2_SIZE : SENSOR_PACKET_SIZE;
+  if (buf.length !== expectedSize) return null;
+
+  return { header, data: readSensorValues(buf, header.size) };
+}
+
+/**
+ * Encode quaternion sensor data into an existing 56-byte buffer.
+ * Quaternion packets always use the v2 header.
+ * Format (little-endian):
+ * - Offset 0-7: v2 header (see writePacketHeaderV2), packet_type 0x07
+ * - Offset 8-23: f32 qx, qy, qz, qw (unit quaternion, W3C device frame)
+ * - Offset 24-35: f32 ga, gb, gg (gyro, deg/s)
+ * - Offset 36-47: f32 ax, ay, az (accel, m/s²)
+ * - Offset 48-55: f64 timestamp (Unix ms)
+ */
+export function encodeQuaternionSensorPacketInto(
+  buf: Buffer,
+  data: QuaternionSensorPacketData,
+  header: PacketHeaderV2,
+): void {
+  if (buf.length < SENSOR_QUAT_PACKET_SIZE) {
+    throw new Error(`Sensor packet buffer too small: got ${buf.length}, expected ${SENSOR_QUAT_PACKET_SIZE}`);
+  }
+  writePacketHeaderV2(buf, PACKET_TYPE.SENSOR_QUAT, header);
+  writeQuaternionSensorValues(buf, data, PACKET_HEADER_V2_SIZE);
+}
+
+/**
+ * Decode a 56-byte quaternion sensor packet.
+ * Returns null if the buffer is not a well-formed quaternion sensor packet.
+ */
+export function decodeQuaternionSensorPacket(buf: Buffer): DecodedQuaternionSensorPacket | null {
+  const header = readPacketHeader(buf);
+  if (!header || header.packetType !== PACKET_TYPE.SENSOR_QUAT) return null;
+  if (header.version !== PROTOCOL_VERSION.V2 || buf.length !== SENSOR_QUAT_PACKET_SIZE) return null;
+
+  return { header, data: readQuaternionSensorValues(buf, PACKET_HEADER_V2_SIZE) };
+}
+
+/**
+ * Encode Euler sensor data into an existing 30-byte compact buffer.
+ * Format (little-endian):
+ * - Offset 0-7: v2 header (see writePacketHeaderV2), packet_type 0x08
+ * - Offset 8-11: u32 timestamp offset (ms since session epoch)
+ * - Offset 12-17: i16 ra, rb, rg (rad × COMPACT_SCALE.ANGLE)
+ * - Offset 18-23: i16 ga, gb, gg (deg/s × COMPACT_SCALE.GYRO)
+ * - Offset 24-29: i16 ax, ay, az (m/s² × COMPACT_SCALE.ACCEL)
+ */
+export function encodeCompactSensorPacketInto(
+  buf: Buffer,
+  data: CompactSensorPacketData,
+  header: PacketHeaderV2,
+): void {
+  if (buf.length < SENSOR_COMPACT_PACKET_SIZE) {
+    throw new Error(`Sensor packet buffer too small: got ${buf.length}, expected ${SENSOR_COMPACT_PACKET_SIZE}`);
+  }
+  writePacketHeaderV2(buf, PACKET_TYPE.SENSOR_COMPACT, header);
+  writeCompactSensorValues(buf, data, PACKET_HEADER_V2_SIZE);
+}
+
+/**
+ * Encode quaternion sensor data into an existing 32-byte compact buffer.
+ * Format (little-endian):
+ * - Offset 0-7: v2 header (see writePacketHeaderV2), packet_type 0x09
+ * - Offset 8-11: u32 timestamp offset (ms since session epoch)
+ * - Offset 12-19: i16 qx, qy, qz, qw (× COMPACT_SCALE.QUATERNION)
+ * - Offset 20-25: i16 ga, gb, gg (deg/s × COMPACT_SCALE.GYRO)
+ * - Offset 26-31: i16 ax, ay, az (m/s² × COMPACT_SCALE.ACCEL)
+ */
+export function encodeCompactQuaternionSensorPacketInto(
+  buf: Buffer,
+  data: CompactQuaternionSensorPacketData,
+  header: PacketHeaderV2,
+): void {
+  if (buf.length < SENSOR_QUAT_COMPACT_PACKET_SIZE) {
+    throw new Error(`Sensor packet buffer too small: got ${buf.length}, expected ${SENSOR_QUAT_COMPACT_PACKET_SIZE}`);
+  }
+  writePacketHeaderV2(buf, PACKET_TYPE.SENSOR_QUAT_COMPACT, header);
+  writeCompactQuaternionSensorValues(buf, data, PACKET_HEADER_V2_SIZE);
+}
+
+/**
+ * Decode a 30-byte compact Euler sensor packet.
+ * Returns null if the buffer is not a well-formed compact sensor packet.
+ */
+export function decodeCompactSensorPacket(
+  buf: Buffer,
+): { header: PacketHeader; data: CompactSensorPacketData } | null {
+  const header = readPacketHeader(buf);
+  if (!header || header.packetType !== PACKET_TYPE.SENSOR_COMPACT) return null;
+  if (header.version !== PROTOCOL_VERSION.V2 || buf.length !== SENSOR_COMPACT_PACKET_SIZE) return null;
+
+  return { header, data: readCompactSensorValues(buf, PACKET_HEADER_V2_SIZE) };
+}
+
+/**
+ * Decode a 32-byte compact quaternion sensor packet.
+ * Returns null if the buffer is not a well-formed compact quaternion packet.
+ */
+export function decodeCompactQuaternionSensorPacket(
+  buf: Buffer,
+): { header: PacketHeader; data: CompactQuaternionSensorPacketData } | null {
+  const header = readPacketHeader(buf);
+  if (!header || header.packetType !== PACKET_TYPE.SENSOR_QUAT_COMPACT) return null;
+  if (header.version !== PROTOCOL_VERSION.V2 || buf.length !== SENSOR_QUAT_COMPACT_PACKET_SIZE) return null;
+
+  return { header, data: readCompactQuaternionSensorValues(buf, PACKET_HEADER_V2_SIZE) };
+}
+
+/** Size in bytes of a batch packet carrying `count` samples of `format`. */
+export function sensorBatchPacketSize(format: SensorSampleFormat, count: number): number {
+  return SENSOR_BATCH_HEADER_SIZE + SENSOR_SAMPLE_SIZE[format] * count;
+}
+
+/** Largest sample count of `format` that fits in one batch datagram. */
+export function maxSensorBatchSamples(format: SensorSampleFormat): number {
+  return maxSamplesPerDatagram(format, SENSOR_BATCH_HEADER_SIZE);
+}
+
+/** Size in bytes of a redundant packet carrying `count` samples (redundant ones included) of `format`. */
+export function sensorRedundantPacketSize(format: SensorSampleFormat, count: number): number {
+  return SENSOR_REDUNDANT_HEADER_SIZE + SENSOR_SAMPLE_SIZE[format] * count;
+}
+
+/** Largest total sample count of `format`, redundant ones included, that fits in one redundant datagram. */
+export function maxRedundantSensorSamples(format: SensorSampleFormat): number {
+  return maxSamplesPerDatagram(format, SENSOR_REDUNDANT_HEADER_SIZE);
+}
+
+/**
+ * Encode `count` samples starting at `samples[start]` (oldest first) into an
+ * existing batch buffer of exactly sensorBatchPacketSize(format, count) bytes.
+ * Format (little-endian):
+ * - Offset 0-7: v2 header (see writePacketHeaderV2), packet_type 0x0A,
+ *   sequence = sequence of the first sample
+ * - Offset 8: u8 sample_format (0x01, 0x07, 0x08 or 0x09)
+ * - Offset 9: u8 sample_count (1-255)
+ * - Offset 10+: sample bodies laid out as in the single-sample packet of that format
+ */
+export function encodeSensorBatchPacketInto(
+  buf: Buffer,
+  format: SensorSampleFormat,
+  samples: readonly SensorSample[],
+  count: number,
+  header: PacketHeaderV2,
+  start = 0,
+): void {
+  if (count < 1 || count > maxSensorBatchSamples(format) || start + count > samples.length) {
+    throw new Error(`Invalid sensor batch sample count: ${count}`);
+  }
+  const size = sensorBatchPacketSize(format, count);
+  if (buf.length < size) {
+    throw new Error(`Sensor batch buffer too small: got ${buf.length}, expected ${size}`);
+  }
+
+  writePacketHeaderV2(buf, PACKET_TYPE.SENSOR_BATCH, header);
+  buf.writeUInt8(format, 8);
+  buf.writeUInt8(count, 9);
+  writeSampleBodies(buf, format, samples, start, count, SENSOR_BATCH_HEADER_SIZE);
+}
+
+/**
+ * Decode a batch sensor packet.
+ * Returns null if the buffer is not a well-formed batch packet.
+ */
+export function decodeSensorBatchPacket(buf: Buffer): DecodedSensorBatchPacket | null {
+  const header = readPacketHeader(buf);
+  if (!header || header.packetType !== PACKET_TYPE.SENSOR_BATCH) return null;
+  if (header.version !== PROTOCOL_VERSION.V2 || buf.length < SENSOR_BATCH_HEADER_SIZE) return null;
+
+  const format = buf.readUInt8(8);
+  if (!isSensorSampleFormat(format)) return null;
+  const count = buf.readUInt8(9);
+  if (count < 1 || buf.length !== sensorBatchPacketSize(format, count)) return null;
+
+  return { header, format, samples: readSampleBodies(buf, format, count, SENSOR_BATCH_HEADER_SIZE) };
+}
+
+/**
+ * Encode `count` samples starting at `samples[start]` (oldest first) into an
+ * existing redundant packet buffer of exactly sensorRedundantPacketSize(format, count)
+ * bytes. The first `redundantCount` of them were already sent in earlier datagrams
+ * and let the receiver recover samples whose datagram was lost.
+ * Format (little-endian):
+ * - Offset 0-7: v2 header (see writePacketHeaderV2), packet_type 0x0B,
+ *   sequence = sequence of the first (oldest redundant) sample
+ * - Offset 8: u8 sample_format (0x01, 0x07, 0x08 or 0x09)
+ * - Offset 9: u8 sample_count, redundant samples included (1-255)
+ * - Offset 10: u8 redundant_count (less than sample_count)
+ * - Offset 11+: sample bodies laid out as in the single-sample packet of that format
+ */
+export function encodeRedundantSensorPacketInto(
+  buf: Buffer,
+  format: SensorSampleFormat,
+  samples: readonly SensorSample[],
+  start: number,
+  count: number,
+  redundantCount: number,
+  header: PacketHeaderV2,
+): void {
+  if (count < 1 || count > maxRedundantSensorSamples(format) || start + count > samples.length) {
+    throw new Error(`Invalid redundant sensor sample count: ${count}`);
+  }
+  if (redundantCount < 0 || redundantCount >= count || redundantCount > MAX_REDUNDANT_SAMPLES) {
+    throw new Error(`Invalid redundant sample count: ${redundantCount}`);
+  }
+  const size = sensorRedundantPacketSize(format, count);
+  if (buf.length < size) {
+    throw new Error(`Redundant sensor buffer too small: got ${buf.length}, expected ${size}`);
+  }
+
+  writePacketHeaderV2(buf, PACKET_TYPE.SENSOR_REDUNDANT, header);
+  buf.writeUInt8(format, 8);
+  buf.writeUInt8(count, 9);
+  buf.writeUInt8(redundantCount, 10);
+  writeSampleBodies(buf, format, samples, start, count, SENSOR_REDUNDANT_HEADER_SIZE);
+}
+
+/**
+ * Decode a redundant sensor packet.
+ * Returns null if the buffer is not a well-formed redundant packet.
+ */
+export function decodeRedundantSensorPacket(buf: Buffer): DecodedRedundantSensorPacket | null {
+  const header = readPacketHeader(buf);
+  if (!header || header.packetType !== PACKET_TYPE.SENSOR_REDUNDANT) return null;
+  if (header.version !== PROTOCOL_VERSION.V2 || buf.length < SENSOR_REDUNDANT_HEADER_SIZE) return null;
+
+  const format = buf.readUInt8(8);
+  if (!isSensorSampleFormat(format)) return null;
+  const count = buf.readUInt8(9);
+  const redundantCount = buf.readUInt8(10);
+  if (count < 1 || redundantCount >= count) return null;
+  if (buf.length !== sensorRedundantPacketSize(format, count)) return null;
+
+  return {
+    header,
+    format,
+    redundantCount,
+    samples: readSampleBodies(buf, format, count, SENSOR_REDUNDANT_HEADER_SIZE),
+  };
+}
+
+function maxSamplesPerDatagram(format: SensorSampleFormat, headerSize: number): number {
+  return Math.min(255, Math.floor((MAX_SENSOR_BATCH_PACKET_SIZE - headerSize) / SENSOR_SAMPLE_SIZE[format]));
+}
+
+function writeSampleBodies(
+  buf: Buffer,
+  format: SensorSampleFormat,
+  samples: readonly SensorSample[],
+  start: number,
+  count: number,
+  offset: number,
+): void {
+  const sampleSize = SENSOR_SAMPLE_SIZE[format];
+  for (let i = 0; i < count; i += 1) {
+    writeSampleBody(buf, format, samples[start + i], offset + i * sampleSize);
+  }
+}
+
+function readSampleBodies(
+  buf: Buffer,
+  format: SensorSampleFormat,
+  count: number,
+  offset: number,
+): DecodedSensorSample[] {
+  const sampleSize = SENSOR_SAMPLE_SIZE[format];
+  const samples: DecodedSensorSample[] = [];
+  for (let i = 0; i < count; i += 1) {
+    samples.push(readSampleBody(buf, format, offset + i * sampleSize));
+  }
+  return samples;
+}
+
+function isSensorSampleFormat(value: number): value is SensorSampleFormat {
+  return Object.prototype.hasOwnProperty.call(SENSOR_SAMPLE_SIZE, value);
+}
+
+function writeSampleBody(buf: Buffer, format: SensorSampleFormat, sample: SensorSample, offset: number): void {
+  switch (format) {
+    case PACKET_TYPE.SENSOR:
+      writeSensorValues(buf, sample, offset);
+      break;
+    case PACKET_TYPE.SENSOR_QUAT:
+      writeQuaternionSensorValues(buf, sample, offset);
+      break;
+    case PACKET_TYPE.SENSOR_COMPACT:
+      writeCompactSensorValues(buf, sample, offset);
+      break;
+    case PACKET_TYPE.SENSOR_QUAT_COMPACT:
+      writeCompactQuaternionSensorValues(buf, sample, offset);
+      break;
+  }
+}
+
+function readSampleBody(buf: Buffer, format: SensorSampleFormat, offset: number): DecodedSensorSample {
+  switch (format) {
+    case PACKET_TYPE.SENSOR:
+      return readSensorValues(buf, offset);
+    case PACKET_TYPE.SENSOR_QUAT:
+      return readQuaternionSensorValues(buf, offset);
+    case PACKET_TYPE.SENSOR_COMPACT:
+      return readCompactSensorValues(buf, offset);
+    case PACKET_TYPE.SENSOR_QUAT_COMPACT:
+      return readCompactQuaternionSensorValues(buf, offset);
+  }
+}
+
+function toU32(value: number): number {
+  return Math.min(0xffffffff, Math.max(0, Math.round(value)));
+}
+
+function writeFixed16(buf: Buffer, value: number, scale: number, offset: number): void {
+  const scaled = Math.round(value * scale);
+  buf.writeInt16LE(Math.max(-32768, Math.min(32767, Number.isFinite(scaled) ? scaled : 0)), offset);
+}
+
+function writeCompactMotion(
+  buf: Buffer,
+  data: Pick<SensorPacketData, 'ga' | 'gb' | 'gg' | 'ax' | 'ay' | 'az'>,
+  offset: number,
+): void {
+  writeFixed16(buf, data.ga, COMPACT_SCALE.GYRO, offset);
+  writeFixed16(buf, data.gb, COMPACT_SCALE.GYRO, offset + 2);
+  writeFixed16(buf, data.gg, COMPACT_SCALE.GYRO, offset + 4);
+  writeFixed16(buf, data.ax, COMPACT_SCALE.ACCEL, offset + 6);
+  writeFixed16(buf, data.ay, COMPACT_SCALE.ACCEL, offset + 8);
+  writeFixed16(buf, data.az, COMPACT_SCALE.ACCEL, offset + 10);
+}
+
+function readCompactMotion(
+  buf: Buffer,
+  offset: number,
+): Pick<SensorPacketData, 'ga' | 'gb' | 'gg' | 'ax' | 'ay' | 'az'> {
+  return {
+    ga: buf.readInt16LE(offset) / COMPACT_SCALE.GYRO,
+    gb: buf.readInt16LE(offset + 2) / COMPACT_SCALE.GYRO,
+    gg: buf.readInt16LE(offset + 4) / COMPACT_SCALE.GYRO,
+    ax: buf.readInt16LE(offset + 6) / COMPACT_SCALE.ACCEL,
+    ay: buf.readInt16LE(offset + 8) / COMPACT_SCALE.ACCEL,
+    az: buf.readInt16LE(offset + 10) / COMPACT_SCALE.ACCEL,
+  };
+}
+
+function writeQuaternionSensorValues(buf: Buffer, data: QuaternionSensorPacketData, offset: number): void {
+  buf.writeFloatLE(data.qx, offset);
+  buf.writeFloatLE(data.qy, offset + 4);
+  buf.writeFloatLE(data.qz, offset + 8);
+  buf.writeFloatLE(data.qw, offset + 12);
+  buf.writeFloatLE(data.ga, offset + 16);
+  buf.writeFloatLE(data.gb, offset + 20);
+  buf.writeFloatLE(data.gg, offset + 24);
+  buf.writeFloatLE(data.ax, offset + 28);
+  buf.writeFloatLE(data.ay, offset + 32);
+  buf.writeFloatLE(data.az, offset + 36);
+  buf.writeDoubleLE(data.ts, offset + 40);
+}
+
+function readQuaternionSensorValues(buf: Buffer, offset: number): QuaternionSensorPacketData {
+  return {
+    qx: buf.readFloatLE(offset),
+    qy: buf.readFloatLE(offset + 4),
+    qz: buf.readFloatLE(offset + 8),
+    qw: buf.readFloatLE(offset + 12),
+    ga: buf.readFloatLE(offset + 16),
+    gb: buf.readFloatLE(offset + 20),
+    gg: buf.readFloatLE(offset + 24),
+    ax: buf.readFloatLE(offset + 28),
+    ay: buf.readFloatLE(offset + 32),
+    az: buf.readFloatLE(offset + 36),
+    ts: buf.readDoubleLE(offset + 40),
+  };
+}
+
+function writeCompactSensorValues(buf: Buffer, data: CompactSensorPacketData, offset: number): void {
+  buf.writeUInt32LE(toU32(data.tsOffset), offset);
+  writeFixed16(buf, data.ra, COMPACT_SCALE.ANGLE, offset + 4);
+  writeFixed16(buf, data.rb, COMPACT_SCALE.ANGLE, offset + 6);
+  writeFixed16(buf, data.rg, COMPACT_SCALE.ANGLE, offset + 8);
+  writeCompactMotion(buf, data, offset + 10);
+}
+
+function readCompactSensorValues(buf: Buffer, offset: number): CompactSensorPacketData {
+  return {
+    tsOffset: buf.readUInt32LE(offset),
+    ra: buf.readInt16LE(offset + 4) / COMPACT_SCALE.ANGLE,
+    rb: buf.readInt16LE(offset + 6) / COMPACT_SCALE.ANGLE,
+    rg: buf.readInt16LE(offset + 8) / COMPACT_SCALE.ANGLE,
+    ...readCompactMotion(buf, offset + 10),
+  };
+}
+
+function writeCompactQuaternionSensorValues(
+  buf: Buffer,
+  data: CompactQuaternionSensorPacketData,
+  offset: number,
+): void {
+  buf.writeUInt32LE(toU32(data.tsOffset), offset);
+  writeFixed16(buf, data.qx, COMPACT_SCALE.QUATERNION, offset + 4);
+  writeFixed16(buf, data.qy, COMPACT_SCALE.QUATERNION, offset + 6);
+  writeFixed16(buf, data.qz, COMPACT_SCALE.QUATERNION, offset + 8);
+  writeFixed16(buf, data.qw, COMPACT_SCALE.QUATERNION, offset + 10);
+  writeCompactMotion(buf, data, offset + 12);
+}
+
+function readCompactQuaternionSensorValues(buf: Buffer, offset: number): CompactQuaternionSensorPacketData {
+  return {
+    tsOffset: buf.readUInt32LE(offset),
+    qx: buf.readInt16LE(offset + 4) / COMPACT_SCALE.QUATERNION,
+    qy: buf.readInt16LE(offset + 6) / COMPACT_SCALE.QUATERNION,
+    qz: buf.readInt16LE(offset + 8) / COMPACT_SCALE.QUATERNION,
+    qw: buf.readInt16LE(offset + 10) / COMPACT_SCALE.QUATERNION,
+    ...readCompactMotion(buf, offset + 12),
+  };
+}
+
+function writeSensorValues(buf: Buffer, data: SensorPacketData, offset: number): void {
+  buf.writeFloatLE(data.ra, offset);
+  buf.writeFloatLE(data.rb, offset + 4);
+  buf.writeFloatLE(data.rg, offset + 8);
+  buf.writeFloatLE(data.ga, offset + 12);
+  buf.writeFloatLE(data.gb, offset + 16);
+  buf.writeFloatLE(data.gg, offset + 20);
+  buf.writeFloatLE(data.ax, offset + 24);
+  buf.writeFloatLE(data.ay, offset + 28);
+  buf.writeFloatLE(data.az, offset + 32);
+  buf.writeDoubleLE(data.ts, offset + 36);
+}
+
+function readSensorValues(buf: Buffer, offset: number): SensorPacketData {
+  return {
+    ra: buf.readFloatLE(offset),
+    rb: buf.readFloatLE(offset + 4),
+    rg: buf.readFloatLE(offset + 8),
+    ga: buf.readFloatLE(offset + 12),
+    gb: buf.readFloatLE(offset + 16),
+    gg: buf.readFloatLE(offset + 20),
+    ax: buf.readFloatLE(offset + 24),
+    ay: buf.readFloatLE(offset + 28),
+    az: buf.readFloatLE(offset + 32),
+    ts: buf.readDoubleLE(offset + 36),
+  };
 }
 
 /**
@@ -89,6 +852,42 @@ export function encodeHeartbeatPacket(timestamp: number): Buffer {
   return buf;
 }
 
+/**
+ * Append a truncated HMAC-SHA256 of the packet, keyed with the pairing key, so
+ * the server can tell packets from a paired phone apart from anyone else's.
+ * - Sensor, batch and redundant packets (v2 header) get PACKET_FLAG.AUTHENTICATED
+ *   set before signing; the MAC covers the whole packet including that flag.
+ * - Command packets are recognized by their length (COMMAND_PACKET_SIZE + PACKET_MAC_SIZE).
+ * Any other packet, including v1 sensor packets, is returned unchanged.
+ */
+export function appendPacketMac(packet: Buffer, key: Uint8Array): Buffer {
+  if (packet.length < 2) return packet;
+  const packetType = packet.readUInt8(0);
+  const isCommand = packetType === PACKET_TYPE.COMMAND && packet.length === COMMAND_PACKET_SIZE;
+  const hasV2Header =
+    (isSensorSampleFormat(packetType) ||
+      packetType === PACKET_TYPE.SENSOR_BATCH ||
+      packetType === PACKET_TYPE.SENSOR_REDUNDANT) &&
+    packet.length >= PACKET_HEADER_V2_SIZE &&
+    packet.readUInt8(1) === PROTOCOL_VERSION.V2;
+  if (!isCommand && !hasV2Header) return packet;
+
+  const buf = Buffer.alloc(packet.length + PACKET_MAC_SIZE);
+  packet.copy(buf);
+  if (hasV2Header) {
+    buf.writeUInt8(buf.readUInt8(2) | PACKET_FLAG.AUTHENTICATED, 2);
+  }
+  const mac = hmacSha256(key, buf.subarray(0, packet.length));
+  buf.set(mac.subarray(0, PACKET_MAC_SIZE), packet.length);
+  return buf;
+}
+
+/** Parse a hex pairing key from a deep link. Returns null unless it is exactly PAIRING_KEY_SIZE bytes. */
+export function parsePairingKey(hex: string): Buffer | null {
+  if (!new RegExp(`^[0-9a-fA-F]{${PAIRING_KEY_SIZE * 2}}$`).test(hex)) return null;
+  return Buffer.from(hex, 'hex');
+}
+
 /**
  * Encode a calibration command packet (10 bytes).
  * Format (little-endian):
@@ -109,15 +908,235 @@ export function encodeCalibrationPacket(timestamp: number): Buffer {
  * Format (little-endian):
  * - Offset 0: u8 packet_type (0x03)
  * - Offset 1-8: f64 timestamp (echoed for RTT calculation)
+ * - Offset 9-12: u32 lost_samples (optional, servers reporting receiver stats)
+ * - Offset 13-16: u32 recovered_samples (optional)
  * 
  * Returns null if the buffer is invalid or not a heartbeat response.
  */
-export function decodeHeartbeatResponse(buf: Buffer): { timestamp: number } | null {
+export function decodeHeartbeatResponse(buf: Buffer): { timestamp: number; stats?: ReceiverStats } | null {
   if (buf.length < HEARTBEAT_PACKET_SIZE) return null;
   if (buf.readUInt8(0) !== PACKET_TYPE.HEARTBEAT_RESPONSE) return null;
+  const timestamp = buf.readDoubleLE(1);
+  if (buf.length < HEARTBEAT_RESPONSE_STATS_SIZE) {
+    return { timestamp };
+  }
+  return {
+    timestamp,
+    stats: {
+      lostSamples: buf.readUInt32LE(9),
+      recoveredSamples: buf.readUInt32LE(13),
+    },
+  };
+}
+
+/**
+ * Encode a discovery probe packet (9 bytes).
+ * Sent to a discovered server to measure RTT without registering as a peer.
+ * Format (little-endian):
+ * - Offset 0: u8 packet_type (0x05)
+ * - Offset 1-8: f64 timestamp (Unix ms)
+ */
+export function encodeDiscoveryProbePacket(timestamp: number): Buffer {
+  const buf = Buffer.alloc(DISCOVERY_PROBE_PACKET_SIZE);
+  buf.writeUInt8(PACKET_TYPE.DISCOVERY_PROBE, 0);
+  buf.writeDoubleLE(timestamp, 1);
+  return buf;
+}
+
+/**
+ * Decode a discovery probe response packet from the server.
+ * Format (little-endian):
+ * - Offset 0: u8 packet_type (0x06)
+ * - Offset 1-8: f64 timestamp (echoed from the probe)
+ *
+ * Returns null if the buffer is invalid or not a probe response.
+ */
+export function decodeDiscoveryProbeResponse(buf: Buffer): { timestamp: number } | null {
+  if (buf.length < DISCOVERY_PROBE_PACKET_SIZE) return null;
+  if (buf.readUInt8(0) !== PACKET_TYPE.DISCOVERY_PROBE_RESPONSE) return null;
   return { timestamp: buf.readDoubleLE(1) };
 }
 
+/**
+ * Encode a time sync request packet (9 bytes).
+ * Format (little-endian):
+ * - Offset 0: u8 packet_type (0x0C)
+ * - Offset 1-8: f64 client send time (phone Unix ms)
+ */
+export function encodeTimeSyncRequestPacket(timestamp: number): Buffer {
+  const buf = Buffer.alloc(TIME_SYNC_REQUEST_PACKET_SIZE);
+  buf.writeUInt8(PACKET_TYPE.TIME_SYNC_REQUEST, 0);
+  buf.writeDoubleLE(timestamp, 1);
+  return buf;
+}
+
+/**
+ * Decode a time sync response packet from the server.
+ * Format (little-endian):
+ * - Offset 0: u8 packet_type (0x0D)
+ * - Offset 1-8: f64 client send time (echoed from the request)
+ * - Offset 9-16: f64 server receive time (server ms)
+ * - Offset 17-24: f64 server send time (server ms)
+ *
+ * Returns null if the buffer is invalid or not a time sync response.
+ */
+export function decodeTimeSyncResponse(buf: Buffer): TimeSyncResponse | null {
+  if (buf.length < TIME_SYNC_RESPONSE_PACKET_SIZE) return null;
+  if (buf.readUInt8(0) !== PACKET_TYPE.TIME_SYNC_RESPONSE) return null;
+  return {
+    clientSendTime: buf.readDoubleLE(1),
+    serverReceiveTime: buf.readDoubleLE(9),
+    serverSendTime: buf.readDoubleLE(17),
+  };
+}
+
+/**
+ * Decode a server message packet.
+ * Format (little-endian):
+ * - Offset 0: u8 packet_type (0x0E)
+ * - Offset 1: u8 message_type
+ * - Offset 2-9: f64 timestamp (server ms)
+ * - Offset 10+: payload, by message type:
+ *   - 0x01 calibration: u8 state (1 = started, 2 = finished)
+ *   - 0x02 score: u16 player, u16 opponent
+ *   - 0x03 rally: u8 event (1 = start, 2 = hit, 3 = end), u16 hits so far
+ *   - 0x04 text: UTF-8 text filling the rest of the packet
+ *
+ * Returns null if the buffer is invalid, not a server message, or of a type
+ * this client does not know, so newer servers can add message types freely.
+ */
+export function decodeServerMessage(buf: Buffer): ServerMessage | null {
+  if (buf.length < SERVER_MESSAGE_HEADER_SIZE) return null;
+  if (buf.readUInt8(0) !== PACKET_TYPE.SERVER_MESSAGE) return null;
+  const messageType = buf.readUInt8(1);
+  const timestamp = buf.readDoubleLE(2);
+  const payloadSize = buf.length - SERVER_MESSAGE_HEADER_SIZE;
+
+  switch (messageType) {
+    case SERVER_MESSAGE_TYPE.CALIBRATION: {
+      if (payloadSize < 1) return null;
+      const state = CALIBRATION_STATES[buf.readUInt8(10)];
+      return state ? { type: 'calibration', timestamp, state } : null;
+    }
+    case SERVER_MESSAGE_TYPE.SCORE:
+      if (payloadSize < 4) return null;
+      return { type: 'score', timestamp, player: buf.readUInt16LE(10), opponent: buf.readUInt16LE(12) };
+    case SERVER_MESSAGE_TYPE.RALLY: {
+      if (payloadSize < 3) return null;
+      const event = RALLY_EVENTS[buf.readUInt8(10)];
+      return event ? { type: 'rally', timestamp, event, hits: buf.readUInt16LE(11) } : null;
+    }
+    case SERVER_MESSAGE_TYPE.TEXT:
+      return { type: 'text', timestamp, text: buf.toString('utf8', SERVER_MESSAGE_HEADER_SIZE) };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Encode a hello packet opening the handshake.
+ * Format (little-endian):
+ * - Offset 0: u8 packet_type (0x0F)
+ * - Offset 1-2: u16 sensor_rate (Hz)
+ * - Offset 3: u8 format_count N
+ * - Offset 4..4+N: u8 packet types the phone can send
+ * - Then u8 length + UTF-8 app version, u8 length + UTF-8 device model
+ * - Then, optionally, the 8-byte token of a session to resume
+ *
+ * Strings longer than MAX_HELLO_STRING_SIZE bytes are truncated.
+ */
+export function encodeHelloPacket(hello: ClientHello, resumeToken?: Buffer): Buffer {
+  const appVersion = Buffer.from(hello.appVersion, 'utf8').subarray(0, MAX_HELLO_STRING_SIZE);
+  const deviceModel = Buffer.from(hello.deviceModel, 'utf8').subarray(0, MAX_HELLO_STRING_SIZE);
+  const formats = hello.formats.slice(0, 0xff);
+  const tokenSize = resumeToken ? SESSION_TOKEN_SIZE : 0;
+  const buf = Buffer.alloc(4 + formats.length + 1 + appVersion.length + 1 + deviceModel.length + tokenSize);
+  buf.writeUInt8(PACKET_TYPE.HELLO, 0);
+  buf.writeUInt16LE(Math.max(0, Math.min(0xffff, Math.round(hello.sensorRate))), 1);
+  buf.writeUInt8(formats.length, 3);
+  let offset = 4;
+  for (const format of formats) {
+    buf.writeUInt8(format, offset);
+    offset += 1;
+  }
+  buf.writeUInt8(appVersion.length, offset);
+  appVersion.copy(buf, offset + 1);
+  offset += 1 + appVersion.length;
+  buf.writeUInt8(deviceModel.length, offset);
+  deviceModel.copy(buf, offset + 1);
+  offset += 1 + deviceModel.length;
+  if (resumeToken) {
+    resumeToken.copy(buf, offset, 0, SESSION_TOKEN_SIZE);
+  }
+  return buf;
+}
+
+/**
+ * Decode a welcome packet answering a hello.
+ * Format (little-endian):
+ * - Offset 0: u8 packet_type (0x10)
+ * - Offset 1: u8 protocol_version (same as the discovery beacon's)
+ * - Offset 2-5: u32 capability flags (CAPABILITY_FLAG)
+ * - Offset 6-13: session token (servers that issue sessions only)
+ *
+ * Returns null if the buffer is invalid or not a welcome.
+ */
+export function decodeWelcomePacket(buf: Buffer): ServerWelcome | null {
+  if (buf.length < WELCOME_PACKET_SIZE) return null;
+  if (buf.readUInt8(0) !== PACKET_TYPE.WELCOME) return null;
+  return {
+    capabilities: capabilitiesFromFlags(buf.readUInt8(1), buf.readUInt32LE(2)),
+    sessionToken:
+      buf.length >= WELCOME_SESSION_PACKET_SIZE
+        ? Buffer.from(buf.subarray(WELCOME_PACKET_SIZE, WELCOME_SESSION_PACKET_SIZE))
+        : undefined,
+  };
+}
+
+/**
+ * Wrap a packet in a session packet, which is how every packet after the
+ * welcome travels so the server can tell the phone apart from other senders
+ * and follow it across source port changes.
+ * Format:
+ * - Offset 0: u8 packet_type (0x11)
+ * - Offset 1-8: session token from the welcome
+ * - Offset 9+: the original packet
+ */
+export function encodeSessionPacket(token: Buffer, packet: Buffer): Buffer {
+  const buf = Buffer.alloc(SESSION_HEADER_SIZE + packet.length);
+  buf.writeUInt8(PACKET_TYPE.SESSION, 0);
+  token.copy(buf, 1, 0, SESSION_TOKEN_SIZE);
+  packet.copy(buf, SESSION_HEADER_SIZE);
+  return buf;
+}
+
+export function capabilitiesFromFlags(protocolVersion: number, flags: number): ServerCapabilities {
+  return {
+    protocolVersion,
+    compact: (flags & CAPABILITY_FLAG.COMPACT) !== 0,
+    batch: (flags & CAPABILITY_FLAG.BATCH) !== 0,
+    redundancy: (flags & CAPABILITY_FLAG.REDUNDANCY) !== 0,
+    timeSync: (flags & CAPABILITY_FLAG.TIME_SYNC) !== 0,
+    serverMessages: (flags & CAPABILITY_FLAG.SERVER_MESSAGES) !== 0,
+    pairingRequired: (flags & CAPABILITY_FLAG.PAIRING_REQUIRED) !== 0,
+  };
+}
+
+/** Capabilities of a server that has not shaken hands, from the version in its discovery beacon. */
+export function capabilitiesFromProtocolVersion(protocolVersion: number): ServerCapabilities {
+  return {
+    protocolVersion,
+    compact: protocolVersion >= COMPACT_MIN_SERVER_VERSION,
+    batch: protocolVersion >= BATCH_MIN_SERVER_VERSION,
+    redundancy: protocolVersion >= REDUNDANCY_MIN_SERVER_VERSION,
+    timeSync: protocolVersion >= TIME_SYNC_MIN_SERVER_VERSION,
+    // The beacon version does not say whether a server sends messages.
+    serverMessages: false,
+    // Servers that predate the handshake accept unsigned packets.
+    pairingRequired: false,
+  };
+}
+
 /**
  * Parse a discovery beacon message.
  * Format: "WESQUASH|PORT|VERSION"
@@ -0,0 +1,118 @@
+/**
+ * NTP-style clock estimation between the phone and the game server.
+ *
+ * Each time sync exchange yields four timestamps: t0 (phone send), t1 (server
+ * receive), t2 (server send) and t3 (phone receive). From those:
+ *   offset = ((t1 - t0) + (t2 - t3)) / 2   (server clock minus phone clock)
+ *   delay  = (t3 - t0) - (t2 - t1)         (network round trip)
+ * An exchange that spent less time in flight bounds the offset more tightly, so the
+ * estimate favours low-delay samples, and drift is fitted across them over time.
+ */
+
+export interface ClockSample {
+  /** Phone time halfway through the exchange (ms). */
+  localTime: number;
+  offset: number;
+  delay: number;
+}
+
+export interface ClockEstimate {
+  /** Server clock minus phone clock at referenceTime (ms). */
+  offset: number;
+  /** Change in offset per ms of phone time (multiply by 1e6 for ppm). */
+  drift: number;
+  /** Phone time the offset was measured at (ms). */
+  referenceTime: number;
+  /** Round trip of the sample the offset came from (ms). */
+  delay: number;
+  sampleCount: number;
+}
+
+// Offset comes from the best of the most recent exchanges, so a stale sample cannot pin it.
+const RECENT_SAMPLE_WINDOW = 8;
+// Drift needs enough samples over enough time for the slope to beat the noise.
+const MIN_DRIFT_SAMPLES = 4;
+const MIN_DRIFT_SPAN_MS = 20000;
+// Crystal oscillators stay well inside this; anything larger is a fitting artefact.
+const MAX_DRIFT = 0.0005;
+
+export function createClockSample(
+  clientSendTime: number,
+  serverReceiveTime: number,
+  serverSendTime: number,
+  clientReceiveTime: number,
+): ClockSample {
+  return {
+    localTime: (clientSendTime + clientReceiveTime) / 2,
+    offset: (serverReceiveTime - clientSendTime + (serverSendTime - clientReceiveTime)) / 2,
+    delay: Math.max(0, clientReceiveTime - clientSendTime - (serverSendTime - serverReceiveTime)),
+  };
+}
+
+/**
+ * Estimate offset and drift from samples in arrival order.
+ * Returns undefined when there are no samples.
+ */
+export function estimateClock(samples: readonly ClockSample[]): ClockEstimate | undefined {
+  if (samples.length === 0) {
+    return undefined;
+  }
+
+  let best = samples[Math.max(0, samples.length - RECENT_SAMPLE_WINDOW)];
+  for (let i = Math.max(0, samples.length - RECENT_SAMPLE_WINDOW); i < samples.length; i += 1) {
+    if (samples[i].delay < best.delay) {
+      best = samples[i];
+    }
+  }
+
+  return {
+    offset: best.offset,
+    drift: estimateDrift(samples),
+    referenceTime: best.localTime,
+    delay: best.delay,
+    sampleCount: samples.length,
+  };
+}
+
+/** Map a phone timestamp onto the server clock. */
+export function toServerTime(estimate: ClockEstimate, localTime: number): number {
+  return localTime + estimate.offset + estimate.drift * (localTime - estimate.referenceTime);
+}
+
+/** Least-squares slope of offset over time, fitted to the lower-delay half of the samples. */
+function estimateDrift(samples: readonly ClockSample[]): number {
+  const fitted = [...samples]
+    .sort((a, b) => a.delay - b.delay)
+    .slice(0, Math.ceil(samples.length / 2));
+  if (fitted.length < MIN_DRIFT_SAMPLES) {
+    return 0;
+  }
+
+  let minTime = Infinity;
+  let maxTime = -Infinity;
+  let meanTime = 0;
+  let meanOffset = 0;
+  for (const sample of fitted) {
+    minTime = Math.min(minTime, sample.localTime);
+    maxTime = Math.max(maxTime, sample.localTime);
+    meanTime += sample.localTime;
+    meanOffset += sample.offset;
+  }
+  if (maxTime - minTime < MIN_DRIFT_SPAN_MS) {
+    return 0;
+  }
+  meanTime /= fitted.length;
+  meanOffset /= fitted.length;
+
+  let covariance = 0;
+  let variance = 0;
+  for (const sample of fitted) {
+    const dt = sample.localTime - meanTime;
+    covariance += dt * (sample.offset - meanOffset);
+    variance += dt * dt;
+  }
+  if (variance === 0) {
+    return 0;
+  }
+  return Math.max(-MAX_DRIFT, Math.min(MAX_DRIFT, covariance / variance));
+}
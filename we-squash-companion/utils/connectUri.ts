@@ -0,0 +1,144 @@
+/**
+ * Connect links from the game's QR code, also accepted as deep links:
+ *
+ *   wesquashcompanion://connect?ip=192.168.1.20&ws=9080&udp=9081&v=6&name=Court%201&key=<32 hex digits>
+ *
+ * Only `ip` is required; it may also be a hostname. `ws` and `udp` default to
+ * the game's standard ports, `v` is the protocol version the game's beacon
+ * would advertise, `name` labels the court in the server list and `key` is the
+ * pairing key for packet authentication. Every field is validated, and a bad
+ * link yields an error the UI can show rather than a half-filled server.
+ */
+
+import { parsePairingKey } from './binaryProtocol';
+
+export const CONNECT_URI_SCHEME = 'wesquashcompanion';
+export const DEFAULT_WS_PORT = 9080;
+export const DEFAULT_UDP_PORT = 9081;
+
+export interface ConnectUri {
+  host: string;
+  wsPort: number;
+  udpPort: number;
+  /** Undefined for links from games that predate the `v` parameter. */
+  protocolVersion: number | undefined;
+  name: string | undefined;
+  /** Lower-case hex pairing key. */
+  pairingKey: string | undefined;
+}
+
+export type ConnectUriErrorCode =
+  | 'not_a_link'
+  | 'unsupported_link'
+  | 'missing_host'
+  | 'invalid_host'
+  | 'invalid_port'
+  | 'invalid_version'
+  | 'invalid_name'
+  | 'invalid_key';
+
+export interface ConnectUriError {
+  code: ConnectUriErrorCode;
+  /** Query parameter the error is about, if any. */
+  field?: string;
+  /** Short explanation suitable for showing to the user. */
+  message: string;
+}
+
+export type ConnectUriResult = { ok: true; uri: ConnectUri } | { ok: false; error: ConnectUriError };
+
+const MAX_NAME_LENGTH = 64;
+// Protocol versions travel as a u8 in welcome packets.
+const MAX_PROTOCOL_VERSION = 255;
+const MAX_HOSTNAME_LENGTH = 253;
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const HOSTNAME_LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARACTER_PATTERN = /[\u0000-\u001f\u007f]/;
+
+export function parseConnectUri(text: string): ConnectUriResult {
+  let url: URL;
+  try {
+    url = new URL(text.trim());
+  } catch {
+    return failure('not_a_link', 'This QR code does not contain a link.');
+  }
+
+  // Schemes and hosts are case-insensitive, and URL only lower-cases the host of web schemes.
+  if (url.protocol.toLowerCase() !== `${CONNECT_URI_SCHEME}:` || url.hostname.toLowerCase() !== 'connect') {
+    return failure('unsupported_link', 'This QR code is not a WeSquash connect code.');
+  }
+
+  const params = url.searchParams;
+  const host = params.get('ip');
+  if (!host) {
+    return failure('missing_host', 'The code does not say which game to connect to.', 'ip');
+  }
+  if (!isValidHost(host)) {
+    return failure('invalid_host', `"${host}" is not a valid IP address or hostname.`, 'ip');
+  }
+
+  const wsPort = parseOptionalInteger(params.get('ws'), 1, 0xffff);
+  if (wsPort === null) {
+    return failure('invalid_port', 'The WebSocket port must be a number from 1 to 65535.', 'ws');
+  }
+  const udpPort = parseOptionalInteger(params.get('udp'), 1, 0xffff);
+  if (udpPort === null) {
+    return failure('invalid_port', 'The UDP port must be a number from 1 to 65535.', 'udp');
+  }
+  const protocolVersion = parseOptionalInteger(params.get('v'), 1, MAX_PROTOCOL_VERSION);
+  if (protocolVersion === null) {
+    return failure('invalid_version', 'The game reports an invalid protocol version.', 'v');
+  }
+
+  const rawName = params.get('name');
+  const name = rawName?.trim() || undefined;
+  if (name !== undefined && (name.length > MAX_NAME_LENGTH || CONTROL_CHARACTER_PATTERN.test(name))) {
+    return failure('invalid_name', `The court name must be plain text of at most ${MAX_NAME_LENGTH} characters.`, 'name');
+  }
+
+  const key = params.get('key');
+  if (key !== null && !parsePairingKey(key)) {
+    return failure('invalid_key', 'The pairing key in this code is damaged. Scan the code again.', 'key');
+  }
+
+  return {
+    ok: true,
+    uri: {
+      host,
+      wsPort: wsPort ?? DEFAULT_WS_PORT,
+      udpPort: udpPort ?? DEFAULT_UDP_PORT,
+      protocolVersion,
+      name,
+      pairingKey: key?.toLowerCase(),
+    },
+  };
+}
+
+function failure(code: ConnectUriErrorCode, message: string, field?: string): ConnectUriResult {
+  return { ok: false, error: { code, field, message } };
+}
+
+function isValidHost(host: string): boolean {
+  const ipv4 = IPV4_PATTERN.exec(host);
+  if (ipv4) {
+    return ipv4.slice(1).every((octet) => Number(octet) <= 255);
+  }
+  // Dotted all-numeric names are malformed addresses, not hostnames.
+  if (/^[\d.]+$/.test(host) || host.length > MAX_HOSTNAME_LENGTH) {
+    return false;
+  }
+  return host.split('.').every((label) => HOSTNAME_LABEL_PATTERN.test(label));
+}
+
+/** Undefined when absent, null when present but not an integer in [min, max]. */
+function parseOptionalInteger(value: string | null, min: number, max: number): number | undefined | null {
+  if (value === null) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+  const parsed = Number(value);
+  return parsed >= min && parsed <= max ? parsed : null;
+}
@@ -0,0 +1,166 @@
+/**
+ * Connection quality statistics shared by the UDP and WebSocket transports.
+ *
+ * A transport owns one tracker, records heartbeats (pings), their round trips
+ * and every data send into it, and periodically summarizes it for the UI.
+ */
+
+export interface ConnectionQuality {
+  /** Rolling round-trip statistics over recent heartbeats (ms). */
+  rttMin: number | undefined;
+  rttMedian: number | undefined;
+  rttP95: number | undefined;
+  /** Smoothed variation between consecutive round trips (ms), as in RFC 3550. */
+  jitter: number | undefined;
+  /** Share of recent heartbeats that got no answer (0-1). */
+  heartbeatLossRate: number | undefined;
+  /** Data sends that failed since the tracker was reset. */
+  sendFailures: number;
+  /** Successful data sends per second over the last measurement window. */
+  sendRate: number;
+}
+
+interface HeartbeatRecord {
+  sentAt: number;
+  answered: boolean;
+}
+
+export interface ConnectionQualityTracker {
+  rttSamples: number[];
+  lastRtt: number | undefined;
+  jitter: number | undefined;
+  heartbeats: HeartbeatRecord[];
+  sendFailures: number;
+  sendWindowStart: number;
+  sendWindowCount: number;
+  sendRate: number;
+}
+
+const RTT_WINDOW = 32;
+const HEARTBEAT_WINDOW = 20;
+// Heartbeats younger than this may still be in flight and do not count towards loss.
+const HEARTBEAT_ANSWER_GRACE_MS = 3000;
+const SEND_RATE_WINDOW_MS = 1000;
+const JITTER_GAIN = 1 / 16;
+
+export const EMPTY_CONNECTION_QUALITY: ConnectionQuality = {
+  rttMin: undefined,
+  rttMedian: undefined,
+  rttP95: undefined,
+  jitter: undefined,
+  heartbeatLossRate: undefined,
+  sendFailures: 0,
+  sendRate: 0,
+};
+
+export function createConnectionQualityTracker(): ConnectionQualityTracker {
+  return {
+    rttSamples: [],
+    lastRtt: undefined,
+    jitter: undefined,
+    heartbeats: [],
+    sendFailures: 0,
+    sendWindowStart: 0,
+    sendWindowCount: 0,
+    sendRate: 0,
+  };
+}
+
+export function resetConnectionQuality(tracker: ConnectionQualityTracker): void {
+  tracker.rttSamples.length = 0;
+  tracker.lastRtt = undefined;
+  tracker.jitter = undefined;
+  tracker.heartbeats.length = 0;
+  tracker.sendFailures = 0;
+  tracker.sendWindowStart = 0;
+  tracker.sendWindowCount = 0;
+  tracker.sendRate = 0;
+}
+
+/** Record a heartbeat sent at `sentAt`, which its answer must echo. */
+export function recordHeartbeatSent(tracker: ConnectionQualityTracker, sentAt: number): void {
+  tracker.heartbeats.push({ sentAt, answered: false });
+  if (tracker.heartbeats.length > HEARTBEAT_WINDOW) {
+    tracker.heartbeats.shift();
+  }
+}
+
+/** Record the answer to the heartbeat sent at `sentAt`. */
+export function recordHeartbeatAnswered(tracker: ConnectionQualityTracker, sentAt: number, now: number): void {
+  const heartbeat = tracker.heartbeats.find((record) => record.sentAt === sentAt);
+  if (!heartbeat || heartbeat.answered) {
+    return;
+  }
+  heartbeat.answered = true;
+
+  const rtt = now - sentAt;
+  tracker.rttSamples.push(rtt);
+  if (tracker.rttSamples.length > RTT_WINDOW) {
+    tracker.rttSamples.shift();
+  }
+  if (tracker.lastRtt !== undefined) {
+    const difference = Math.abs(rtt - tracker.lastRtt);
+    tracker.jitter =
+      tracker.jitter === undefined ? difference : tracker.jitter + (difference - tracker.jitter) * JITTER_GAIN;
+  }
+  tracker.lastRtt = rtt;
+}
+
+export function recordSendResult(tracker: ConnectionQualityTracker, success: boolean, now: number): void {
+  if (!success) {
+    tracker.sendFailures += 1;
+    return;
+  }
+  if (tracker.sendWindowStart === 0) {
+    tracker.sendWindowStart = now;
+  }
+  tracker.sendWindowCount += 1;
+  rollSendWindow(tracker, now);
+}
+
+export function summarizeConnectionQuality(tracker: ConnectionQualityTracker, now: number): ConnectionQuality {
+  rollSendWindow(tracker, now);
+
+  const sorted = [...tracker.rttSamples].sort((a, b) => a - b);
+  let settled = 0;
+  let unanswered = 0;
+  for (const heartbeat of tracker.heartbeats) {
+    if (heartbeat.answered) {
+      settled += 1;
+    } else if (now - heartbeat.sentAt >= HEARTBEAT_ANSWER_GRACE_MS) {
+      settled += 1;
+      unanswered += 1;
+    }
+  }
+
+  return {
+    rttMin: sorted.length > 0 ? sorted[0] : undefined,
+    rttMedian: percentile(sorted, 0.5),
+    rttP95: percentile(sorted, 0.95),
+    jitter: tracker.jitter,
+    heartbeatLossRate: settled > 0 ? unanswered / settled : undefined,
+    sendFailures: tracker.sendFailures,
+    sendRate: tracker.sendRate,
+  };
+}
+
+function rollSendWindow(tracker: ConnectionQualityTracker, now: number): void {
+  if (tracker.sendWindowStart === 0) {
+    return;
+  }
+  const elapsed = now - tracker.sendWindowStart;
+  if (elapsed >= SEND_RATE_WINDOW_MS) {
+    tracker.sendRate = (tracker.sendWindowCount * 1000) / elapsed;
+    tracker.sendWindowStart = now;
+    tracker.sendWindowCount = 0;
+  }
+}
+
+/** Nearest-rank percentile of an ascending array. */
+function percentile(sorted: readonly number[], fraction: number): number | undefined {
+  if (sorted.length === 0) {
+    return undefined;
+  }
+  const rank = Math.ceil(fraction * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+}
@@ -0,0 +1,19 @@
+/** What the companion reports about itself in handshakes and recordings. */
+
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+
+export function getAppVersion(): string {
+  return Constants.expoConfig?.version ?? 'unknown';
+}
+
+/** Best device description available without extra native modules. */
+export function describeDevice(): string {
+  if (Platform.OS === 'android') {
+    return `${Platform.constants.Manufacturer} ${Platform.constants.Model}`;
+  }
+  if (Platform.OS === 'ios') {
+    return `${Platform.constants.systemName} ${Platform.constants.osVersion} (${Platform.constants.interfaceIdiom})`;
+  }
+  return Platform.OS;
+}
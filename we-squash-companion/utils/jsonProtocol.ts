@@ -0,0 +1,207 @@
+/**
+ * JSON messages exchanged over the WebSocket transport.
+ *
+ * Client messages are built by feature code and serialized with
+ * serializeClientMessage. Server messages arrive as untrusted text and are only
+ * handed on after parseServerMessage has checked their shape.
+ */
+
+import {
+  CAPABILITY_FLAG,
+  capabilitiesFromFlags,
+  type ClientHello,
+  type ServerCapabilities,
+} from './binaryProtocol';
+
+export interface SensorMessage {
+  type: 'sensor';
+  device: 'phone';
+  ra: number;
+  rb: number;
+  rg: number;
+  ga: number;
+  gb: number;
+  gg: number;
+  ax: number;
+  ay: number;
+  az: number;
+  ts: number;
+  seq: number;
+}
+
+export interface QuaternionSensorMessage {
+  type: 'sensor';
+  device: 'phone';
+  qx: number;
+  qy: number;
+  qz: number;
+  qw: number;
+  ga: number;
+  gb: number;
+  gg: number;
+  ax: number;
+  ay: number;
+  az: number;
+  ts: number;
+  seq: number;
+}
+
+/** One entry of a sensor batch: a sensor message without its envelope fields. */
+export type BatchedSensorSample =
+  | Omit<SensorMessage, 'type' | 'device'>
+  | Omit<QuaternionSensorMessage, 'type' | 'device'>;
+
+export interface SensorBatchMessage {
+  type: 'sensor_batch';
+  device: 'phone';
+  /** Oldest first. */
+  samples: BatchedSensorSample[];
+}
+
+export interface CalibrateMessage {
+  type: 'calibrate';
+  device: 'phone';
+  ts: number;
+}
+
+/** JSON form of the hello packet; the server answers with a welcome. */
+export interface HelloMessage {
+  type: 'hello';
+  app_version: string;
+  device_model: string;
+  sensor_rate: number;
+  formats: number[];
+}
+
+export interface PingMessage {
+  type: 'ping';
+  timestamp: number;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  timestamp: number;
+}
+
+/** How sensor data is framed on the WebSocket: JSON text or binary protocol packets. */
+export type WsEncoding = 'json' | 'binary';
+
+export interface WelcomeMessage {
+  type: 'welcome';
+  message: string;
+  /** Encodings the server accepts for sensor data. Servers that predate binary frames omit it. */
+  encodings?: WsEncoding[];
+  /** Present when the welcome answers a hello; older servers send a welcome without it. */
+  protocol_version?: number;
+  /** Names from CAPABILITY_NAMES. Unknown names are dropped when parsing. */
+  capabilities?: string[];
+}
+
+/** Every message the phone sends over WebSocket. */
+export type JsonClientMessage =
+  | SensorMessage
+  | QuaternionSensorMessage
+  | SensorBatchMessage
+  | CalibrateMessage
+  | HelloMessage
+  | PingMessage;
+
+/** Every message the game sends over WebSocket. */
+export type JsonServerMessage = WelcomeMessage | PingMessage | PongMessage;
+
+export type JsonServerMessageType = JsonServerMessage['type'];
+
+export type JsonServerMessageOfType<T extends JsonServerMessageType> = Extract<JsonServerMessage, { type: T }>;
+
+/** Wire names of the capability flags in JSON welcomes. */
+export const CAPABILITY_NAMES: Record<string, number> = {
+  compact: CAPABILITY_FLAG.COMPACT,
+  batch: CAPABILITY_FLAG.BATCH,
+  redundancy: CAPABILITY_FLAG.REDUNDANCY,
+  time_sync: CAPABILITY_FLAG.TIME_SYNC,
+  server_messages: CAPABILITY_FLAG.SERVER_MESSAGES,
+  pairing_required: CAPABILITY_FLAG.PAIRING_REQUIRED,
+};
+
+export function createHelloMessage(hello: ClientHello): HelloMessage {
+  return {
+    type: 'hello',
+    app_version: hello.appVersion,
+    device_model: hello.deviceModel,
+    sensor_rate: hello.sensorRate,
+    formats: hello.formats,
+  };
+}
+
+/** Capabilities announced by a welcome, or undefined for a server that predates the handshake. */
+export function capabilitiesFromWelcome(message: WelcomeMessage): ServerCapabilities | undefined {
+  if (message.protocol_version === undefined) {
+    return undefined;
+  }
+  let flags = 0;
+  for (const name of message.capabilities ?? []) {
+    flags |= CAPABILITY_NAMES[name] ?? 0;
+  }
+  return capabilitiesFromFlags(message.protocol_version, flags);
+}
+
+export function serializeClientMessage(message: JsonClientMessage): string {
+  return JSON.stringify(message);
+}
+
+/**
+ * Parse and validate a text frame from the server.
+ * Returns null if it is not JSON, not an object, of an unknown type, or missing
+ * a field its type requires. Extra fields are ignored.
+ */
+export function parseServerMessage(text: string): JsonServerMessage | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data)) {
+    return null;
+  }
+
+  switch (data.type) {
+    case 'welcome': {
+      if (typeof data.message !== 'string') {
+        return null;
+      }
+      const message: WelcomeMessage = { type: 'welcome', message: data.message };
+      if (Array.isArray(data.encodings)) {
+        message.encodings = data.encodings.filter(isWsEncoding);
+      }
+      if (isFiniteNumber(data.protocol_version)) {
+        message.protocol_version = data.protocol_version;
+        message.capabilities = Array.isArray(data.capabilities)
+          ? data.capabilities.filter(isCapabilityName)
+          : [];
+      }
+      return message;
+    }
+    case 'ping':
+    case 'pong':
+      return isFiniteNumber(data.timestamp) ? { type: data.type, timestamp: data.timestamp } : null;
+    default:
+      return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCapabilityName(value: unknown): value is string {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CAPABILITY_NAMES, value);
+}
+
+function isWsEncoding(value: unknown): value is WsEncoding {
+  return value === 'json' || value === 'binary';
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
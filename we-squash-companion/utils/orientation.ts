@@ -0,0 +1,35 @@
+export interface Quaternion {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+/**
+ * Convert W3C DeviceOrientation Euler angles (radians) to a unit quaternion.
+ *
+ * The W3C spec composes intrinsic Z-X'-Y'' rotations, R = Rz(alpha) * Rx(beta) * Ry(gamma),
+ * so this is the Hamilton product qz(alpha) * qx(beta) * qy(gamma) expanded in place.
+ * The device frame matches Godot's, so the game can use the result as-is.
+ *
+ * Writes into `out` when given to keep the sensor hot path allocation-free.
+ */
+export function eulerToQuaternion(
+  alpha: number,
+  beta: number,
+  gamma: number,
+  out: Quaternion = { x: 0, y: 0, z: 0, w: 1 },
+): Quaternion {
+  const ca = Math.cos(alpha / 2);
+  const sa = Math.sin(alpha / 2);
+  const cb = Math.cos(beta / 2);
+  const sb = Math.sin(beta / 2);
+  const cg = Math.cos(gamma / 2);
+  const sg = Math.sin(gamma / 2);
+
+  out.x = ca * sb * cg - sa * cb * sg;
+  out.y = ca * cb * sg + sa * sb * cg;
+  out.z = sa * cb * cg + ca * sb * sg;
+  out.w = ca * cb * cg - sa * sb * sg;
+  return out;
+}
@@ -0,0 +1,39 @@
+/**
+ * Small JSON documents kept in the app's document directory.
+ *
+ * Reads never throw: a missing or unreadable document reads as undefined so
+ * callers fall back to their defaults, and callers validate the shape
+ * themselves. Writes replace the whole document.
+ */
+
+import { File, Paths } from 'expo-file-system';
+
+const TAG = '[Store]';
+
+export async function readJsonDocument(name: string): Promise<unknown> {
+  try {
+    const file = new File(Paths.document, name);
+    if (!file.exists) {
+      return undefined;
+    }
+    return JSON.parse(await file.text());
+  } catch (error) {
+    console.warn(TAG, `Ignoring unreadable ${name}:`, error);
+    return undefined;
+  }
+}
+
+/** Returns false if the document could not be written. */
+export function writeJsonDocument(name: string, value: unknown): boolean {
+  try {
+    const file = new File(Paths.document, name);
+    if (!file.exists) {
+      file.create();
+    }
+    file.write(JSON.stringify(value));
+    return true;
+  } catch (error) {
+    console.error(TAG, `Failed to save ${name}:`, error);
+    return false;
+  }
+}
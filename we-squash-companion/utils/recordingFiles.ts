@@ -0,0 +1,185 @@
+/**
+ * Recording files in the app's document directory (format in sensorRecording.ts).
+ *
+ * Writers buffer records and append them in chunks through an open file
+ * handle, so a long recording costs one native write per flush rather than one
+ * per sample, and a crash loses at most the unflushed tail. Listing reads only
+ * each file's header and last line.
+ */
+
+import { Buffer } from 'buffer';
+import { Directory, File, Paths, type FileHandle } from 'expo-file-system';
+import {
+  encodeRecord,
+  encodeRecordingHeader,
+  parseRecord,
+  parseRecording,
+  parseRecordingHeader,
+  type Recording,
+  type RecordingMetadata,
+  type RecordingRecord,
+} from './sensorRecording';
+
+const TAG = '[Recording]';
+const RECORDINGS_DIRECTORY = 'recordings';
+const RECORDING_EXTENSION = '.jsonl';
+// Headers are a few hundred bytes; end records fit well within the tail.
+const HEADER_READ_SIZE = 4096;
+const TAIL_READ_SIZE = 256;
+
+export interface RecordingWriter {
+  id: string;
+  startedAt: number;
+  handle: FileHandle;
+  pending: string[];
+  sampleCount: number;
+}
+
+export interface RecordingSummary {
+  id: string;
+  metadata: RecordingMetadata;
+  /** Undefined for recordings that were cut short. */
+  durationMs: number | undefined;
+  sampleCount: number | undefined;
+  sizeBytes: number;
+}
+
+/** Create a recording file and write its header. Returns null if the file could not be created. */
+export function openRecordingWriter(metadata: RecordingMetadata): RecordingWriter | null {
+  const id = new Date(metadata.startedAt).toISOString().replace(/[:.]/g, '-');
+  try {
+    const directory = getRecordingsDirectory();
+    directory.create({ idempotent: true });
+    const file = new File(directory, `${id}${RECORDING_EXTENSION}`);
+    file.create();
+    const writer: RecordingWriter = {
+      id,
+      startedAt: metadata.startedAt,
+      handle: file.open(),
+      pending: [encodeRecordingHeader(metadata)],
+      sampleCount: 0,
+    };
+    return flushRecordingWriter(writer) ? writer : null;
+  } catch (error) {
+    console.error(TAG, 'Failed to create recording:', error);
+    return null;
+  }
+}
+
+/** Queue a record for the next flush. */
+export function appendRecord(writer: RecordingWriter, record: RecordingRecord): void {
+  if (record.type === 'sample') {
+    writer.sampleCount += 1;
+  }
+  writer.pending.push(encodeRecord(record));
+}
+
+/** Write queued records to the file. Returns false if the write failed. */
+export function flushRecordingWriter(writer: RecordingWriter): boolean {
+  if (writer.pending.length === 0) {
+    return true;
+  }
+  const chunk = writer.pending.join('');
+  writer.pending.length = 0;
+  try {
+    writer.handle.writeBytes(Buffer.from(chunk, 'utf8'));
+    return true;
+  } catch (error) {
+    console.error(TAG, `Failed to write recording ${writer.id}:`, error);
+    return false;
+  }
+}
+
+/** Write the end record, flush and close the file. */
+export function closeRecordingWriter(writer: RecordingWriter, endedAt: number): void {
+  appendRecord(writer, { type: 'end', t: endedAt - writer.startedAt, samples: writer.sampleCount });
+  flushRecordingWriter(writer);
+  try {
+    writer.handle.close();
+  } catch (error) {
+    console.error(TAG, `Failed to close recording ${writer.id}:`, error);
+  }
+}
+
+/** Every readable recording, newest first. */
+export function listRecordings(): RecordingSummary[] {
+  const directory = getRecordingsDirectory();
+  if (!directory.exists) {
+    return [];
+  }
+
+  const summaries: RecordingSummary[] = [];
+  for (const entry of directory.list()) {
+    if (entry instanceof File && entry.name.endsWith(RECORDING_EXTENSION)) {
+      const summary = readRecordingSummary(entry);
+      if (summary) {
+        summaries.push(summary);
+      }
+    }
+  }
+  return summaries.sort((a, b) => b.metadata.startedAt - a.metadata.startedAt);
+}
+
+/** A whole recording, for replay. Null if it is missing or unreadable. */
+export async function readRecording(id: string): Promise<Recording | null> {
+  try {
+    const file = getRecordingFile(id);
+    return file.exists ? parseRecording(await file.text()) : null;
+  } catch (error) {
+    console.error(TAG, `Failed to read recording ${id}:`, error);
+    return null;
+  }
+}
+
+export function deleteRecording(id: string): boolean {
+  try {
+    const file = getRecordingFile(id);
+    if (file.exists) {
+      file.delete();
+    }
+    return true;
+  } catch (error) {
+    console.error(TAG, `Failed to delete recording ${id}:`, error);
+    return false;
+  }
+}
+
+function readRecordingSummary(file: File): RecordingSummary | null {
+  let handle: FileHandle | null = null;
+  try {
+    handle = file.open();
+    const size = handle.size ?? file.size;
+    const head = Buffer.from(handle.readBytes(Math.min(HEADER_READ_SIZE, size))).toString('utf8');
+    const metadata = parseRecordingHeader(head.split('\n', 1)[0]);
+    if (!metadata) {
+      return null;
+    }
+
+    handle.offset = Math.max(0, size - TAIL_READ_SIZE);
+    const tail = Buffer.from(handle.readBytes(size - handle.offset)).toString('utf8');
+    const lastLine = tail.trimEnd().split('\n').pop() ?? '';
+    const end = parseRecord(lastLine);
+    const isComplete = end?.type === 'end';
+
+    return {
+      id: file.name.slice(0, -RECORDING_EXTENSION.length),
+      metadata,
+      durationMs: isComplete ? end.t : undefined,
+      sampleCount: isComplete ? end.samples : undefined,
+      sizeBytes: size,
+    };
+  } catch (error) {
+    console.warn(TAG, `Ignoring unreadable recording ${file.name}:`, error);
+    return null;
+  } finally {
+    handle?.close();
+  }
+}
+
+function getRecordingsDirectory(): Directory {
+  return new Directory(Paths.document, RECORDINGS_DIRECTORY);
+}
+
+function getRecordingFile(id: string): File {
+  return new File(getRecordingsDirectory(), `${id}${RECORDING_EXTENSION}`);
+}
@@ -0,0 +1,237 @@
+/**
+ * File format for recorded sensor sessions.
+ *
+ * A recording is UTF-8 JSON Lines. The first line is a header naming the
+ * format and its version and carrying the session metadata; every following
+ * line is one record, timestamped with `t`, the ms since the recording started:
+ *
+ *   {"format":"wesquash-recording","version":1,"metadata":{...}}
+ *   {"type":"connection","t":0,"state":"open","transport":"udp","fallback":false}
+ *   {"type":"sample","t":16,"ra":0.1,"rb":1.2,"rg":-0.3,"ga":4.5,"gb":0,"gg":-1.5,"ax":0.02,"ay":9.7,"az":0.1}
+ *   {"type":"end","t":60000,"samples":3750}
+ *
+ * Sample fields are the sensor packet's: rotation (rad), rotation rate (deg/s)
+ * and acceleration (m/s²), exactly as read from DeviceMotion. A recording that
+ * lacks the end record was cut short, e.g. by the app being killed; the records
+ * before the cut are still valid. Readers skip record types they do not know,
+ * so new ones can be added without a version bump.
+ */
+
+type TransportMode = 'udp' | 'websocket';
+type OrientationMode = 'euler' | 'quaternion';
+type PacketPrecision = 'full' | 'compact';
+type SampleMode = 'latest' | 'batched';
+
+export const RECORDING_FORMAT = 'wesquash-recording';
+export const RECORDING_VERSION = 1;
+
+// Micro-units are far below sensor noise and keep lines short.
+const SAMPLE_PRECISION = 1e6;
+const SAMPLE_FIELDS = ['ra', 'rb', 'rg', 'ga', 'gb', 'gg', 'ax', 'ay', 'az'] as const;
+
+export interface RecordingMetadata {
+  /** Wall-clock start of the recording (ms since the epoch). */
+  startedAt: number;
+  device: {
+    model: string;
+    platform: string;
+    appVersion: string;
+  };
+  /** Streaming settings in effect when the recording started. */
+  settings: {
+    transport: TransportMode;
+    orientationMode: OrientationMode;
+    precision: PacketPrecision;
+    sampleMode: SampleMode;
+    redundancy: number;
+    sensorUpdateIntervalMs: number;
+    sendThrottleIntervalMs: number;
+  };
+  /** The game the phone was streaming to, if one was selected. */
+  server: {
+    ip: string;
+    udpPort: number;
+    wsPort: number;
+    version: number | undefined;
+    name: string | undefined;
+  } | null;
+}
+
+export interface SampleRecord {
+  type: 'sample';
+  t: number;
+  ra: number;
+  rb: number;
+  rg: number;
+  ga: number;
+  gb: number;
+  gg: number;
+  ax: number;
+  ay: number;
+  az: number;
+}
+
+export interface ConnectionRecord {
+  type: 'connection';
+  t: number;
+  state: string;
+  transport: TransportMode;
+  /** True while UDP has failed over to WebSocket. */
+  fallback: boolean;
+}
+
+export interface EndRecord {
+  type: 'end';
+  t: number;
+  samples: number;
+}
+
+export type RecordingRecord = SampleRecord | ConnectionRecord | EndRecord;
+
+export interface Recording {
+  metadata: RecordingMetadata;
+  /** Samples and connection events in recorded order. */
+  records: (SampleRecord | ConnectionRecord)[];
+  /** False when the recording has no end record. */
+  isComplete: boolean;
+  durationMs: number;
+}
+
+export function encodeRecordingHeader(metadata: RecordingMetadata): string {
+  return `${JSON.stringify({ format: RECORDING_FORMAT, version: RECORDING_VERSION, metadata })}\n`;
+}
+
+export function encodeRecord(record: RecordingRecord): string {
+  if (record.type !== 'sample') {
+    return `${JSON.stringify(record)}\n`;
+  }
+  return `${JSON.stringify({
+    type: 'sample',
+    t: record.t,
+    ra: roundSample(record.ra),
+    rb: roundSample(record.rb),
+    rg: roundSample(record.rg),
+    ga: roundSample(record.ga),
+    gb: roundSample(record.gb),
+    gg: roundSample(record.gg),
+    ax: roundSample(record.ax),
+    ay: roundSample(record.ay),
+    az: roundSample(record.az),
+  })}\n`;
+}
+
+/** Metadata from a recording's first line; null if it is not a recording this build can read. */
+export function parseRecordingHeader(line: string): RecordingMetadata | null {
+  const header = parseJsonLine(line);
+  if (
+    !isRecord(header) ||
+    header.format !== RECORDING_FORMAT ||
+    typeof header.version !== 'number' ||
+    header.version > RECORDING_VERSION
+  ) {
+    return null;
+  }
+  return isRecordingMetadata(header.metadata) ? header.metadata : null;
+}
+
+/** One record line; null for malformed lines and record types this build does not know. */
+export function parseRecord(line: string): RecordingRecord | null {
+  const record = parseJsonLine(line);
+  if (!isRecord(record) || !isFiniteNumber(record.t)) {
+    return null;
+  }
+  switch (record.type) {
+    case 'sample':
+      return SAMPLE_FIELDS.every((field) => isFiniteNumber(record[field])) ? (record as unknown as SampleRecord) : null;
+    case 'connection':
+      return typeof record.state === 'string' &&
+        isTransportMode(record.transport) &&
+        typeof record.fallback === 'boolean'
+        ? (record as unknown as ConnectionRecord)
+        : null;
+    case 'end':
+      return isFiniteNumber(record.samples) ? (record as unknown as EndRecord) : null;
+    default:
+      return null;
+  }
+}
+
+/** A whole recording file; null if its header is unreadable. Bad record lines are skipped. */
+export function parseRecording(text: string): Recording | null {
+  const lines = text.split('\n');
+  const metadata = parseRecordingHeader(lines[0] ?? '');
+  if (!metadata) {
+    return null;
+  }
+
+  const records: (SampleRecord | ConnectionRecord)[] = [];
+  let end: EndRecord | null = null;
+  for (let i = 1; i < lines.length; i += 1) {
+    const record = lines[i] ? parseRecord(lines[i]) : null;
+    if (!record) {
+      continue;
+    }
+    if (record.type === 'end') {
+      end = record;
+    } else {
+      records.push(record);
+    }
+  }
+
+  return {
+    metadata,
+    records,
+    isComplete: end !== null,
+    durationMs: end?.t ?? records[records.length - 1]?.t ?? 0,
+  };
+}
+
+function roundSample(value: number): number {
+  return Math.round(value * SAMPLE_PRECISION) / SAMPLE_PRECISION;
+}
+
+function parseJsonLine(line: string): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecordingMetadata(value: unknown): value is RecordingMetadata {
+  if (!isRecord(value) || !isFiniteNumber(value.startedAt)) {
+    return false;
+  }
+  const { device, settings, server } = value;
+  return (
+    isRecord(device) &&
+    typeof device.model === 'string' &&
+    typeof device.platform === 'string' &&
+    typeof device.appVersion === 'string' &&
+    isRecord(settings) &&
+    isTransportMode(settings.transport) &&
+    typeof settings.orientationMode === 'string' &&
+    typeof settings.precision === 'string' &&
+    typeof settings.sampleMode === 'string' &&
+    isFiniteNumber(settings.redundancy) &&
+    isFiniteNumber(settings.sensorUpdateIntervalMs) &&
+    isFiniteNumber(settings.sendThrottleIntervalMs) &&
+    (server === null ||
+      (isRecord(server) &&
+        typeof server.ip === 'string' &&
+        isFiniteNumber(server.udpPort) &&
+        isFiniteNumber(server.wsPort)))
+  );
+}
+
+function isTransportMode(value: unknown): value is TransportMode {
+  return value === 'udp' || value === 'websocket';
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,190 @@
+/**
+ * Plays the samples of a recording back with their original timing.
+ *
+ * Each sample is due at its recorded offset scaled by the playback speed, so
+ * the stream keeps the recording's rhythm, including its gaps and jitter. The
+ * player hands samples out with the current time; callers stamp them like live
+ * readings, so the game cannot tell a replay from live input. As a sensor
+ * source, a replay can stand in for DeviceMotion on the live send path.
+ */
+
+import type { Recording, SampleRecord } from './sensorRecording';
+import type { SensorSource } from './sensorSource';
+
+/**
+ * A recording as a sensor source; speed and loop changes apply to a running
+ * replay. Starting it again, e.g. after the link dropped, resumes after the
+ * last sample played rather than from the beginning.
+ */
+export interface ReplaySource extends SensorSource {
+  setSpeed: (speed: number) => void;
+  setLoop: (loop: boolean) => void;
+}
+
+interface ReplayPlayer {
+  setSpeed: (speed: number) => void;
+  setLoop: (loop: boolean) => void;
+  /** Index of the next sample due. */
+  getPosition: () => number;
+  stop: () => void;
+}
+
+interface ReplaySourceOptions {
+  /** Playback speed; 1 is real time. */
+  speed: number;
+  /** Start over from the first sample after the last one. */
+  loop: boolean;
+}
+
+interface ReplayOptions {
+  speed: number;
+  loop: boolean;
+  /** Index of the first sample to play. */
+  startIndex: number;
+  onSample: (sample: SampleRecord, now: number) => void;
+  /** Called once the last sample has played, unless looping. */
+  onFinish: () => void;
+}
+
+export const MIN_REPLAY_SPEED = 0.1;
+export const MAX_REPLAY_SPEED = 8;
+// When playback falls further behind than this (e.g. the JS thread stalled),
+// it resumes from where it was instead of bursting the missed samples.
+const MAX_REPLAY_LAG_MS = 250;
+
+export function createReplaySource(recording: Recording, { speed, loop }: ReplaySourceOptions): ReplaySource {
+  let currentSpeed = speed;
+  let isLooping = loop;
+  let player: ReplayPlayer | null = null;
+  let position = 0;
+
+  return {
+    kind: 'replay',
+    isAvailableAsync: () => Promise.resolve(true),
+    // Samples keep their recorded timing.
+    setUpdateInterval: () => {},
+    start: (listener, onEnd) => {
+      player?.stop();
+      const current = startReplay(recording, {
+        speed: currentSpeed,
+        loop: isLooping,
+        startIndex: position,
+        onSample: (sample, now) => {
+          listener(
+            {
+              rotation: { alpha: sample.ra, beta: sample.rb, gamma: sample.rg },
+              gyro: { alpha: sample.ga, beta: sample.gb, gamma: sample.gg },
+              accel: { x: sample.ax, y: sample.ay, z: sample.az },
+            },
+            now,
+          );
+        },
+        onFinish: onEnd,
+      });
+      player = current;
+      return () => {
+        current.stop();
+        position = current.getPosition();
+        if (player === current) {
+          player = null;
+        }
+      };
+    },
+    setSpeed: (nextSpeed: number) => {
+      currentSpeed = nextSpeed;
+      player?.setSpeed(nextSpeed);
+    },
+    setLoop: (nextLoop: boolean) => {
+      isLooping = nextLoop;
+      player?.setLoop(nextLoop);
+    },
+  };
+}
+
+function startReplay(recording: Recording, { speed, loop, startIndex, onSample, onFinish }: ReplayOptions): ReplayPlayer {
+  const samples = recording.records.filter((record): record is SampleRecord => record.type === 'sample');
+  // Pause between the end of one loop and the start of the next, as between two readings.
+  const loopGapMs = recording.metadata.settings.sensorUpdateIntervalMs;
+  let currentSpeed = clampReplaySpeed(speed);
+  let isLooping = loop;
+  let index = startIndex < samples.length ? startIndex : 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let isStopped = false;
+  // The sample recorded at anchorT is due at wall-clock time anchorAt.
+  let anchorT = samples[index]?.t ?? 0;
+  let anchorAt = Date.now();
+
+  const dueAt = (t: number) => anchorAt + (t - anchorT) / currentSpeed;
+
+  const schedule = (now: number) => {
+    if (timer !== null) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(tick, Math.max(0, dueAt(samples[index].t) - now));
+  };
+
+  const tick = () => {
+    timer = null;
+    if (isStopped) {
+      return;
+    }
+    const now = Date.now();
+    if (index < samples.length && now - dueAt(samples[index].t) > MAX_REPLAY_LAG_MS) {
+      anchorT = samples[index].t;
+      anchorAt = now;
+    }
+    while (index < samples.length && dueAt(samples[index].t) <= now) {
+      onSample(samples[index], now);
+      index += 1;
+    }
+
+    if (index === samples.length) {
+      if (!isLooping) {
+        isStopped = true;
+        onFinish();
+        return;
+      }
+      index = 0;
+      anchorT = samples[0].t;
+      anchorAt = now + loopGapMs;
+    }
+    schedule(now);
+  };
+
+  // A replay that already played to the end only starts over when looping.
+  if (samples.length === 0 || (startIndex >= samples.length && !isLooping)) {
+    index = samples.length;
+    isStopped = true;
+    onFinish();
+  } else {
+    schedule(anchorAt);
+  }
+
+  return {
+    setSpeed: (nextSpeed: number) => {
+      // Rebase at the current position so the change does not jump ahead or back.
+      const now = Date.now();
+      anchorT += (now - anchorAt) * currentSpeed;
+      anchorAt = now;
+      currentSpeed = clampReplaySpeed(nextSpeed);
+      if (!isStopped) {
+        schedule(now);
+      }
+    },
+    setLoop: (nextLoop: boolean) => {
+      isLooping = nextLoop;
+    },
+    getPosition: () => index,
+    stop: () => {
+      isStopped = true;
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
+
+function clampReplaySpeed(speed: number): number {
+  return Math.min(MAX_REPLAY_SPEED, Math.max(MIN_REPLAY_SPEED, speed));
+}
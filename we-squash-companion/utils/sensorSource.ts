@@ -0,0 +1,74 @@
+/**
+ * Where motion readings come from.
+ *
+ * The sensor stream only talks to a SensorSource, so the phone's own
+ * DeviceMotion, a synthetic generator (syntheticSensorSource.ts) or a recording
+ * (sensorReplay.ts) can drive the same send path. Readings use DeviceMotion's
+ * units whatever the source: rotation in rad, rotation rate in deg/s and
+ * acceleration in m/s².
+ */
+
+import { DeviceMotion, type DeviceMotionMeasurement } from 'expo-sensors';
+
+interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface Euler {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+export interface SensorReading {
+  rotation: Euler;
+  gyro: Euler;
+  accel: Vec3;
+}
+
+export type SensorReadingListener = (reading: SensorReading, timestamp: number) => void;
+
+export interface SensorSource {
+  /** Shown in logs and in the UI. */
+  kind: 'device' | 'synthetic' | 'replay';
+  isAvailableAsync: () => Promise<boolean>;
+  /** Requested time between readings; sources with their own timing may ignore it. */
+  setUpdateInterval: (intervalMs: number) => void;
+  /**
+   * Deliver readings to the listener until the returned function is called.
+   * `onEnd` is called if the source runs out by itself, e.g. a replay that is
+   * not looping.
+   */
+  start: (listener: SensorReadingListener, onEnd: () => void) => () => void;
+}
+
+const ZERO_EULER: Euler = { alpha: 0, beta: 0, gamma: 0 };
+const ZERO_VEC3: Vec3 = { x: 0, y: 0, z: 0 };
+
+/** The phone's own motion sensors through expo-sensors. */
+export const expoDeviceMotionSource: SensorSource = {
+  kind: 'device',
+  isAvailableAsync: () => DeviceMotion.isAvailableAsync(),
+  setUpdateInterval: (intervalMs: number) => {
+    DeviceMotion.setUpdateInterval(intervalMs);
+  },
+  start: (listener: SensorReadingListener) => {
+    const subscription = DeviceMotion.addListener((measurement: DeviceMotionMeasurement) => {
+      const rot = measurement.rotation;
+      const gyro = measurement.rotationRate;
+      const accel = measurement.acceleration;
+
+      listener(
+        {
+          rotation: { alpha: rot.alpha, beta: rot.beta, gamma: rot.gamma },
+          gyro: gyro ? { alpha: gyro.alpha, beta: gyro.beta, gamma: gyro.gamma } : ZERO_EULER,
+          accel: accel ? { x: accel.x, y: accel.y, z: accel.z } : ZERO_VEC3,
+        },
+        Date.now(),
+      );
+    });
+    return () => subscription.remove();
+  },
+};
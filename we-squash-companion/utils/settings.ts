@@ -0,0 +1,172 @@
+/**
+ * Streaming settings the user can tune, with defaults, limits and the
+ * versioned document format they are stored in.
+ *
+ * Stored documents are migrated step by step to the current version, then
+ * every field is validated on its own: a missing or out-of-range value falls
+ * back to its default (or is clamped) without discarding the rest.
+ */
+
+type TransportMode = 'udp' | 'websocket';
+export type MotionSource = 'device' | 'synthetic';
+
+export interface HeartbeatSettings {
+  /** Heartbeat interval while sensor data is flowing. */
+  streamingIntervalMs: number;
+  /** Idle heartbeats start at this interval and double up to the maximum. */
+  idleMinIntervalMs: number;
+  idleMaxIntervalMs: number;
+  /** Silence after which the link is dropped and reconnected. */
+  streamingTimeoutMs: number;
+  idleTimeoutMs: number;
+  /** Unanswered heartbeats in a row after which the link is reported as degraded. */
+  suspectAfterMissed: number;
+}
+
+export interface AppSettings {
+  /** Transport selected on launch when no saved server says otherwise. */
+  defaultTransport: TransportMode;
+  /** Stream the phone's sensors, or scripted swings where there are none (simulators, web). */
+  motionSource: MotionSource;
+  /** Sensor update interval. */
+  sensorUpdateIntervalMs: number;
+  /** Minimum time between sensor packets. */
+  sendThrottleIntervalMs: number;
+  heartbeat: HeartbeatSettings;
+}
+
+export type NumericSetting = Exclude<keyof AppSettings, 'defaultTransport' | 'motionSource' | 'heartbeat'>;
+
+export interface SettingLimits {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export type SettingsPatch = Partial<Omit<AppSettings, 'heartbeat'>> & { heartbeat?: Partial<HeartbeatSettings> };
+
+export const SETTINGS_VERSION = 1;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  defaultTransport: 'udp',
+  motionSource: 'device',
+  sensorUpdateIntervalMs: 16,
+  sendThrottleIntervalMs: 16,
+  heartbeat: {
+    streamingIntervalMs: 250,
+    idleMinIntervalMs: 1000,
+    idleMaxIntervalMs: 5000,
+    streamingTimeoutMs: 4000,
+    idleTimeoutMs: 15000,
+    suspectAfterMissed: 3,
+  },
+};
+
+export const SETTING_LIMITS: Record<NumericSetting, SettingLimits> = {
+  sensorUpdateIntervalMs: { min: 8, max: 100, step: 4 },
+  sendThrottleIntervalMs: { min: 0, max: 100, step: 4 },
+};
+
+export const HEARTBEAT_SETTING_LIMITS: Record<keyof HeartbeatSettings, SettingLimits> = {
+  streamingIntervalMs: { min: 100, max: 1000, step: 50 },
+  idleMinIntervalMs: { min: 250, max: 5000, step: 250 },
+  idleMaxIntervalMs: { min: 1000, max: 30000, step: 1000 },
+  streamingTimeoutMs: { min: 1000, max: 15000, step: 500 },
+  idleTimeoutMs: { min: 5000, max: 60000, step: 5000 },
+  suspectAfterMissed: { min: 1, max: 10, step: 1 },
+};
+
+/**
+ * Upgrades from older document versions, indexed by the version they upgrade
+ * from: entry 0 turns a version 1 document into version 2, and so on. Append
+ * an entry and bump SETTINGS_VERSION whenever a setting is renamed, split or
+ * changes meaning; additions need neither, since missing fields take their
+ * defaults.
+ */
+const SETTINGS_MIGRATIONS: ((document: Record<string, unknown>) => Record<string, unknown>)[] = [];
+
+/** Read a stored settings document of any known version. */
+export function migrateSettings(document: unknown): AppSettings {
+  if (!isRecord(document) || typeof document.version !== 'number' || !Number.isInteger(document.version)) {
+    return DEFAULT_SETTINGS;
+  }
+  // A document from a newer app build is read as far as this build understands it.
+  let migrated = document;
+  for (let version = document.version; version < SETTINGS_VERSION; version += 1) {
+    const migration = SETTINGS_MIGRATIONS[version - 1];
+    if (!migration) {
+      return DEFAULT_SETTINGS;
+    }
+    migrated = migration(migrated);
+  }
+
+  const heartbeat = isRecord(migrated.heartbeat) ? migrated.heartbeat : {};
+  return sanitizeSettings({
+    defaultTransport:
+      migrated.defaultTransport === 'udp' || migrated.defaultTransport === 'websocket'
+        ? migrated.defaultTransport
+        : DEFAULT_SETTINGS.defaultTransport,
+    motionSource:
+      migrated.motionSource === 'device' || migrated.motionSource === 'synthetic'
+        ? migrated.motionSource
+        : DEFAULT_SETTINGS.motionSource,
+    sensorUpdateIntervalMs: readNumber(migrated.sensorUpdateIntervalMs, DEFAULT_SETTINGS.sensorUpdateIntervalMs),
+    sendThrottleIntervalMs: readNumber(migrated.sendThrottleIntervalMs, DEFAULT_SETTINGS.sendThrottleIntervalMs),
+    heartbeat: {
+      streamingIntervalMs: readNumber(heartbeat.streamingIntervalMs, DEFAULT_SETTINGS.heartbeat.streamingIntervalMs),
+      idleMinIntervalMs: readNumber(heartbeat.idleMinIntervalMs, DEFAULT_SETTINGS.heartbeat.idleMinIntervalMs),
+      idleMaxIntervalMs: readNumber(heartbeat.idleMaxIntervalMs, DEFAULT_SETTINGS.heartbeat.idleMaxIntervalMs),
+      streamingTimeoutMs: readNumber(heartbeat.streamingTimeoutMs, DEFAULT_SETTINGS.heartbeat.streamingTimeoutMs),
+      idleTimeoutMs: readNumber(heartbeat.idleTimeoutMs, DEFAULT_SETTINGS.heartbeat.idleTimeoutMs),
+      suspectAfterMissed: readNumber(heartbeat.suspectAfterMissed, DEFAULT_SETTINGS.heartbeat.suspectAfterMissed),
+    },
+  });
+}
+
+export function applySettingsPatch(settings: AppSettings, patch: SettingsPatch): AppSettings {
+  return sanitizeSettings({
+    ...settings,
+    ...patch,
+    heartbeat: { ...settings.heartbeat, ...patch.heartbeat },
+  });
+}
+
+/** The document written to storage. */
+export function serializeSettings(settings: AppSettings): Record<string, unknown> {
+  return { version: SETTINGS_VERSION, ...settings };
+}
+
+/**
+ * Clamp every value to its limits and keep related values consistent: the idle
+ * backoff never ends below where it starts, and each timeout outlasts the
+ * interval it waits on.
+ */
+function sanitizeSettings(settings: AppSettings): AppSettings {
+  const heartbeat = { ...settings.heartbeat };
+  for (const key of Object.keys(HEARTBEAT_SETTING_LIMITS) as (keyof HeartbeatSettings)[]) {
+    heartbeat[key] = clamp(heartbeat[key], HEARTBEAT_SETTING_LIMITS[key]);
+  }
+  heartbeat.idleMaxIntervalMs = Math.max(heartbeat.idleMaxIntervalMs, heartbeat.idleMinIntervalMs);
+  heartbeat.streamingTimeoutMs = Math.max(heartbeat.streamingTimeoutMs, heartbeat.streamingIntervalMs * 2);
+  heartbeat.idleTimeoutMs = Math.max(heartbeat.idleTimeoutMs, heartbeat.idleMaxIntervalMs * 2);
+
+  return {
+    defaultTransport: settings.defaultTransport,
+    motionSource: settings.motionSource,
+    sensorUpdateIntervalMs: clamp(settings.sensorUpdateIntervalMs, SETTING_LIMITS.sensorUpdateIntervalMs),
+    sendThrottleIntervalMs: clamp(settings.sendThrottleIntervalMs, SETTING_LIMITS.sendThrottleIntervalMs),
+    heartbeat,
+  };
+}
+
+function clamp(value: number, limits: SettingLimits): number {
+  return Math.min(limits.max, Math.max(limits.min, Math.round(value)));
+}
+
+function readNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,220 @@
+/**
+ * A sensor source that plays a script of racket swings with sensor noise, for
+ * simulators, web builds and anything else without real motion sensors.
+ *
+ * Between swings the phone rests in a fixed pose. A swing turns it around one
+ * axis with a bell-shaped rotation rate that peaks at `peakRateDps`, then
+ * slowly turns it back to rest; acceleration follows the change in rate at
+ * arm's length. Rotation, rotation rate and acceleration therefore agree with
+ * each other the way real readings do. Noise comes from a seeded generator, so
+ * a given script and seed always produce the same readings.
+ */
+
+import type { SensorReading, SensorReadingListener, SensorSource } from './sensorSource';
+
+type Axis = 'alpha' | 'beta' | 'gamma';
+
+export type SwingKind = 'forehand' | 'backhand' | 'overhead';
+
+export interface ScriptedSwing {
+  kind: SwingKind;
+  /** Rest before the swing starts. */
+  delayMs: number;
+  durationMs: number;
+  /** Peak rotation rate (deg/s); the game counts a swing above 400. */
+  peakRateDps: number;
+  /** Time taken to turn back to rest afterwards. */
+  recoveryMs?: number;
+}
+
+export interface SensorNoise {
+  /** Standard deviations of the noise added to each axis. */
+  rotationRad: number;
+  gyroDps: number;
+  accelMs2: number;
+}
+
+export interface SyntheticSourceOptions {
+  script?: ScriptedSwing[];
+  /** Start the script over after the last swing. Defaults to true. */
+  loop?: boolean;
+  noise?: SensorNoise;
+  seed?: number;
+}
+
+interface SwingSegment {
+  swing: ScriptedSwing;
+  startMs: number;
+  recoveryMs: number;
+}
+
+const DEFAULT_UPDATE_INTERVAL_MS = 16;
+const DEFAULT_RECOVERY_MS = 600;
+const DEFAULT_SEED = 1;
+// Phone held upright like a racket handle, screen facing sideways.
+const REST_ROTATION = { alpha: 0, beta: 1.2, gamma: 0 };
+// Distance from the elbow to the phone; turns angular acceleration into linear.
+const ARM_RADIUS_M = 0.5;
+const DEG_TO_RAD = Math.PI / 180;
+
+const SWING_AXES: Record<SwingKind, { axis: Axis; sign: 1 | -1; accelAxis: 'x' | 'y' | 'z' }> = {
+  forehand: { axis: 'alpha', sign: 1, accelAxis: 'x' },
+  backhand: { axis: 'alpha', sign: -1, accelAxis: 'x' },
+  overhead: { axis: 'beta', sign: -1, accelAxis: 'z' },
+};
+
+export const DEFAULT_SWING_SCRIPT: ScriptedSwing[] = [
+  { kind: 'forehand', delayMs: 1500, durationMs: 250, peakRateDps: 900 },
+  { kind: 'backhand', delayMs: 1500, durationMs: 300, peakRateDps: 700 },
+  { kind: 'overhead', delayMs: 2000, durationMs: 220, peakRateDps: 1100 },
+  // Too slow to count as a swing.
+  { kind: 'forehand', delayMs: 1200, durationMs: 400, peakRateDps: 300 },
+];
+
+export const DEFAULT_SENSOR_NOISE: SensorNoise = {
+  rotationRad: 0.002,
+  gyroDps: 1.5,
+  accelMs2: 0.05,
+};
+
+export function createSyntheticSource({
+  script = DEFAULT_SWING_SCRIPT,
+  loop = true,
+  noise = DEFAULT_SENSOR_NOISE,
+  seed = DEFAULT_SEED,
+}: SyntheticSourceOptions = {}): SensorSource {
+  const segments: SwingSegment[] = [];
+  let scriptDurationMs = 0;
+  for (const swing of script) {
+    const recoveryMs = swing.recoveryMs ?? DEFAULT_RECOVERY_MS;
+    segments.push({ swing, startMs: scriptDurationMs + swing.delayMs, recoveryMs });
+    scriptDurationMs += swing.delayMs + swing.durationMs + recoveryMs;
+  }
+  let updateIntervalMs = DEFAULT_UPDATE_INTERVAL_MS;
+
+  return {
+    kind: 'synthetic',
+    isAvailableAsync: () => Promise.resolve(true),
+    setUpdateInterval: (intervalMs: number) => {
+      updateIntervalMs = intervalMs;
+    },
+    start: (listener: SensorReadingListener, onEnd: () => void) => {
+      const random = createGaussian(seed);
+      const startedAt = Date.now();
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const tick = () => {
+        const now = Date.now();
+        const elapsedMs = now - startedAt;
+        if (!loop && elapsedMs >= scriptDurationMs) {
+          timer = null;
+          onEnd();
+          return;
+        }
+        const scriptMs = scriptDurationMs > 0 ? elapsedMs % scriptDurationMs : 0;
+        listener(addNoise(readingAt(segments, scriptMs), noise, random), now);
+        // Read the interval on every tick so a settings change applies right away.
+        timer = setTimeout(tick, updateIntervalMs);
+      };
+      timer = setTimeout(tick, updateIntervalMs);
+
+      return () => {
+        if (timer !== null) {
+          clearTimeout(timer);
+          timer = null;
+        }
+      };
+    },
+  };
+}
+
+/** The noise-free reading at a point in the script. */
+function readingAt(segments: SwingSegment[], scriptMs: number): SensorReading {
+  const reading: SensorReading = {
+    rotation: { ...REST_ROTATION },
+    gyro: { alpha: 0, beta: 0, gamma: 0 },
+    accel: { x: 0, y: 0, z: 0 },
+  };
+
+  for (const { swing, startMs, recoveryMs } of segments) {
+    const swingEndMs = startMs + swing.durationMs;
+    if (scriptMs < startMs || scriptMs >= swingEndMs + recoveryMs) {
+      continue;
+    }
+    const { axis, sign, accelAxis } = SWING_AXES[swing.kind];
+    const durationS = swing.durationMs / 1000;
+    // The swing covers the area under its rate curve; recovery covers it back.
+    const sweepDeg = (swing.peakRateDps * durationS) / 2;
+
+    let rateDps: number;
+    let rateChangeDps2: number;
+    let angleDeg: number;
+    if (scriptMs < swingEndMs) {
+      const progress = (scriptMs - startMs) / swing.durationMs;
+      rateDps = swing.peakRateDps * bell(progress);
+      rateChangeDps2 = ((swing.peakRateDps * Math.PI) / durationS) * Math.sin(2 * Math.PI * progress);
+      angleDeg = sweepDeg * bellArea(progress);
+    } else {
+      const progress = (scriptMs - swingEndMs) / recoveryMs;
+      const recoveryS = recoveryMs / 1000;
+      const recoveryPeakDps = (2 * sweepDeg) / recoveryS;
+      rateDps = -recoveryPeakDps * bell(progress);
+      rateChangeDps2 = -((recoveryPeakDps * Math.PI) / recoveryS) * Math.sin(2 * Math.PI * progress);
+      angleDeg = sweepDeg * (1 - bellArea(progress));
+    }
+
+    reading.rotation[axis] += sign * angleDeg * DEG_TO_RAD;
+    reading.gyro[axis] = sign * rateDps;
+    reading.accel[accelAxis] = sign * rateChangeDps2 * DEG_TO_RAD * ARM_RADIUS_M;
+    break;
+  }
+
+  return reading;
+}
+
+/** sin² bump over progress 0..1, peaking at 1 halfway. */
+function bell(progress: number): number {
+  const value = Math.sin(Math.PI * progress);
+  return value * value;
+}
+
+/** Share of the bump's area covered by `progress`, from 0 to 1. */
+function bellArea(progress: number): number {
+  return progress - Math.sin(2 * Math.PI * progress) / (2 * Math.PI);
+}
+
+function addNoise(reading: SensorReading, noise: SensorNoise, random: () => number): SensorReading {
+  return {
+    rotation: {
+      alpha: reading.rotation.alpha + random() * noise.rotationRad,
+      beta: reading.rotation.beta + random() * noise.rotationRad,
+      gamma: reading.rotation.gamma + random() * noise.rotationRad,
+    },
+    gyro: {
+      alpha: reading.gyro.alpha + random() * noise.gyroDps,
+      beta: reading.gyro.beta + random() * noise.gyroDps,
+      gamma: reading.gyro.gamma + random() * noise.gyroDps,
+    },
+    accel: {
+      x: reading.accel.x + random() * noise.accelMs2,
+      y: reading.accel.y + random() * noise.accelMs2,
+      z: reading.accel.z + random() * noise.accelMs2,
+    },
+  };
+}
+
+/** Standard normal values from a seeded mulberry32 generator (Box-Muller). */
+function createGaussian(seed: number): () => number {
+  let state = seed >>> 0;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return () => {
+    const u = 1 - uniform();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * uniform());
+  };
+}
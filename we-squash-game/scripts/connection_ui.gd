@@ -9,15 +9,17 @@ var _peer_count := 0
 var _local_ip := ""
 var _ws_port := 0
 var _udp_port := 0
+var _pairing_key := ""
 var _calibrating := false
 var _is_calibrated := false
 var _qr_displayed := false
 
 
-func setup(local_ip: String, ws_port: int, udp_port: int) -> void:
+func setup(local_ip: String, ws_port: int, udp_port: int, pairing_key: String) -> void:
 	_local_ip = local_ip
 	_ws_port = ws_port
 	_udp_port = udp_port
+	_pairing_key = pairing_key
 	_generate_qr_code()
 	_update_display()
 
@@ -56,8 +58,12 @@ func _generate_qr_code() -> void:
 		return
 	
 	# Generate the deep link URL for the companion app
-	# Format: wesquashcompanion://connect?ip=xxx.xxx.xxx.xxx&ws=9080&udp=9081
-	var qr_url := "wesquashcompanion://connect?ip=%s&ws=%d&udp=%d" % [_local_ip, _ws_port, _udp_port]
+	# Format: wesquashcompanion://connect?ip=xxx.xxx.xxx.xxx&ws=9080&udp=9081&v=6&key=<32 hex digits>
+	var qr_url := "wesquashcompanion://connect?ip=%s&ws=%d&udp=%d&v=%d" % [
+		_local_ip, _ws_port, _udp_port, GameUDPServer.PROTOCOL_VERSION
+	]
+	if not _pairing_key.is_empty():
+		qr_url += "&key=%s" % _pairing_key
 	
 	print("[ConnectionUI] Generating QR code for: ", qr_url)
 	
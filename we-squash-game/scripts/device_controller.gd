@@ -19,6 +19,10 @@ signal swing_detected(power: float)
 @export_range(-180.0, 180.0) var anchor_pitch_deg: float = 0.0
 @export_range(-180.0, 180.0) var anchor_roll_deg: float = 90.0
 
+# Compact packets carry ms offsets from the phone's session epoch, so a new
+# session restarts near zero. Treat a large backwards jump as a new timeline.
+const TIMESTAMP_RESET_THRESHOLD_MS := 5000
+
 # --- Quaternion-based state ---
 var _target_quat := Quaternion.IDENTITY
 var _relative_quat := Quaternion.IDENTITY
@@ -91,20 +95,31 @@ func start_calibration() -> void:
 
 
 func apply_sensor_data(data: Dictionary) -> void:
-	if not data.has("ra"):
+	if not data.has("ra") and not data.has("qw"):
 		return
 
 	var sample_ts := int(data.get("ts", 0))
 	if sample_ts > 0:
-		if sample_ts <= _last_sensor_timestamp:
+		if sample_ts <= _last_sensor_timestamp \
+				and _last_sensor_timestamp - sample_ts < TIMESTAMP_RESET_THRESHOLD_MS:
 			return
 		_last_sensor_timestamp = sample_ts
 
-	# Build orientation quaternion from W3C DeviceOrientation Euler angles (radians)
-	var alpha: float = float(data.get("ra", 0.0))  # yaw   (around Z)
-	var beta: float  = float(data.get("rb", 0.0))  # pitch (around X)
-	var gamma: float = float(data.get("rg", 0.0))  # roll  (around Y)
-	var current_quat := w3c_to_godot_quat(alpha, beta, gamma)
+	var current_quat: Quaternion
+	if data.has("qw"):
+		# Quaternion mode: the phone already composed the W3C rotation, avoiding gimbal lock.
+		current_quat = Quaternion(
+			float(data.get("qx", 0.0)),
+			float(data.get("qy", 0.0)),
+			float(data.get("qz", 0.0)),
+			float(data.get("qw", 1.0))
+		).normalized()
+	else:
+		# Build orientation quaternion from W3C DeviceOrientation Euler angles (radians)
+		var alpha: float = float(data.get("ra", 0.0))  # yaw   (around Z)
+		var beta: float  = float(data.get("rb", 0.0))  # pitch (around X)
+		var gamma: float = float(data.get("rg", 0.0))  # roll  (around Y)
+		current_quat = w3c_to_godot_quat(alpha, beta, gamma)
 
 	# Gyroscope rotation rate (deg/s)
 	var ga: float = float(data.get("ga", 0.0))
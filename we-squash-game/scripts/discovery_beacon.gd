@@ -6,7 +6,8 @@ extends Node
 
 const BROADCAST_PORT := 9079
 const BROADCAST_INTERVAL_MS := 2000  # Broadcast every 2 seconds
-const BEACON_MESSAGE := "WESQUASH|9081|1"
+# Version must match GameUDPServer.PROTOCOL_VERSION; the README lists what each version adds.
+const BEACON_MESSAGE := "WESQUASH|9081|6"
 const BROADCAST_ADDRESS := "255.255.255.255"
 
 var _udp := PacketPeerUDP.new()
@@ -21,12 +21,14 @@ func _ready() -> void:
 	ws_server.peer_connected.connect(_on_peer_connected)
 	ws_server.peer_disconnected.connect(_on_peer_disconnected)
 	ws_server.message_received.connect(_on_message_received)
+	ws_server.binary_received.connect(_on_binary_received)
 
 	# UDP server signals
 	udp_server.peer_connected.connect(_on_peer_connected)
 	udp_server.peer_disconnected.connect(_on_peer_disconnected)
 	udp_server.sensor_data_received.connect(_on_udp_sensor_data_received)
 	udp_server.command_received.connect(_on_udp_command_received)
+	udp_server.client_hello_received.connect(_on_client_hello)
 
 	# Start WebSocket server
 	var ws_err := ws_server.start_server()
@@ -47,7 +49,7 @@ func _ready() -> void:
 		# Continue anyway, direct connection still works
 
 	var local_ip := ws_server.get_local_ip()
-	connection_ui.setup(local_ip, GameWebSocketServer.PORT, GameUDPServer.PORT)
+	connection_ui.setup(local_ip, GameWebSocketServer.PORT, GameUDPServer.PORT, udp_server.get_pairing_key().hex_encode())
 
 
 func _physics_process(_delta: float) -> void:
@@ -62,11 +64,15 @@ func _process(_delta: float) -> void:
 func _on_peer_connected(peer_id: int) -> void:
 	_active_peer_id = peer_id
 	connection_ui.on_peer_connected(peer_id)
-	if peer_id < 1000:
-		ws_server.send_to(peer_id, JSON.stringify({
-			"type": "welcome",
-			"message": "Connected to WeSquash!"
-		}))
+
+
+func _on_client_hello(peer_id: int, hello: Dictionary) -> void:
+	print("[Main] Peer %d: companion %s on %s, %d Hz" % [
+		peer_id,
+		hello.get("app_version", "?"),
+		hello.get("device_model", "?"),
+		int(hello.get("sensor_rate", 0))
+	])
 
 
 func _on_peer_disconnected(peer_id: int) -> void:
@@ -77,10 +83,14 @@ func _on_peer_disconnected(peer_id: int) -> void:
 
 func _on_calibration_started() -> void:
 	connection_ui.on_calibration_started()
+	if _active_peer_id >= 1000:
+		udp_server.send_calibration_state(_active_peer_id, false)
 
 
 func _on_calibration_finished() -> void:
 	connection_ui.on_calibration_finished()
+	if _active_peer_id >= 1000:
+		udp_server.send_calibration_state(_active_peer_id, true)
 
 
 func _on_udp_sensor_data_received(_peer_id: int, data: Dictionary) -> void:
@@ -98,7 +108,7 @@ func _on_udp_command_received(_peer_id: int, command: Dictionary) -> void:
 		_request_calibration()
 
 
-func _on_message_received(_peer_id: int, message: String) -> void:
+func _on_message_received(peer_id: int, message: String) -> void:
 	var data = JSON.parse_string(message)
 	if data == null or typeof(data) != TYPE_DICTIONARY:
 		return
@@ -111,8 +121,50 @@ func _on_message_received(_peer_id: int, message: String) -> void:
 
 		if _active_controller:
 			_active_controller.apply_sensor_data(data)
+	elif msg_type == "sensor_batch":
+		# Batched samples, oldest first; each entry has the same keys as a "sensor" message.
+		var samples = data.get("samples", [])
+		if typeof(samples) != TYPE_ARRAY:
+			return
+		if not _device_spawned:
+			_spawn_device("phone")
+
+		if _active_controller:
+			for sample in samples:
+				if typeof(sample) == TYPE_DICTIONARY:
+					_active_controller.apply_sensor_data(sample)
 	elif msg_type == "calibrate":
 		_request_calibration()
+	elif msg_type == "hello":
+		# JSON form of the UDP hello; the welcome tells the phone what we support.
+		_on_client_hello(peer_id, {
+			"app_version": str(data.get("app_version", "")),
+			"device_model": str(data.get("device_model", "")),
+			"sensor_rate": int(data.get("sensor_rate", 0)),
+			"formats": data.get("formats", [])
+		})
+		ws_server.send_to(peer_id, JSON.stringify({
+			"type": "welcome",
+			"message": "Connected to WeSquash!",
+			"protocol_version": GameUDPServer.PROTOCOL_VERSION,
+			"capabilities": udp_server.get_capability_names(),
+			# Sensor data may arrive as JSON or as binary protocol packets
+			"encodings": ["json", "binary"]
+		}))
+
+
+func _on_binary_received(_peer_id: int, packet: PackedByteArray) -> void:
+	# Binary frames carry the same sensor and batch packets as UDP.
+	var samples := udp_server.decode_sensor_samples(packet)
+	if samples.is_empty():
+		push_warning("[Main] Ignoring invalid binary WebSocket frame (%d bytes)" % packet.size())
+		return
+	if not _device_spawned:
+		_spawn_device("phone")
+
+	if _active_controller:
+		for sample in samples:
+			_active_controller.apply_sensor_data(sample)
 
 
 func _request_calibration() -> void:
@@ -9,25 +9,122 @@ signal peer_disconnected(peer_id: int)
 signal sensor_data_received(peer_id: int, data: Dictionary)
 ## Emitted when a command packet is received from a peer.
 signal command_received(peer_id: int, command: Dictionary)
+## Emitted when a peer opens the handshake. Keys: app_version, device_model,
+## sensor_rate, formats, and resume_token (hex) when the phone asks to resume
+## an earlier session.
+signal client_hello_received(peer_id: int, hello: Dictionary)
 
 const PORT := 9081
 const MAX_CONNECTIONS := 10
 const PEER_TIMEOUT_MS := 15000  # Consider peer dead after 15s of no packets
 const TIMEOUT_CHECK_INTERVAL_MS := 1000
 
+## Drop sensor and command packets that are not signed with the pairing key from
+## the QR code. Off by default so phones that found the game by its beacon can play.
+@export var require_pairing := false
+
 # Packet types (must match React Native encoder)
 const PACKET_TYPE_SENSOR := 0x01
 const PACKET_TYPE_HEARTBEAT := 0x02
 const PACKET_TYPE_HEARTBEAT_RESPONSE := 0x03
 const PACKET_TYPE_COMMAND := 0x04
+const PACKET_TYPE_DISCOVERY_PROBE := 0x05
+const PACKET_TYPE_DISCOVERY_PROBE_RESPONSE := 0x06
+const PACKET_TYPE_SENSOR_QUAT := 0x07
+const PACKET_TYPE_SENSOR_COMPACT := 0x08
+const PACKET_TYPE_SENSOR_QUAT_COMPACT := 0x09
+const PACKET_TYPE_SENSOR_BATCH := 0x0A
+const PACKET_TYPE_SENSOR_REDUNDANT := 0x0B
+const PACKET_TYPE_TIME_SYNC_REQUEST := 0x0C
+const PACKET_TYPE_TIME_SYNC_RESPONSE := 0x0D
+const PACKET_TYPE_SERVER_MESSAGE := 0x0E
+const PACKET_TYPE_HELLO := 0x0F
+const PACKET_TYPE_WELCOME := 0x10
+const PACKET_TYPE_SESSION := 0x11
+
+# Protocol level of this server, also advertised by the discovery beacon.
+const PROTOCOL_VERSION := 6
+# Feature bits sent in welcome packets (names are used in JSON welcomes)
+const CAPABILITY_COMPACT := 0x01
+const CAPABILITY_BATCH := 0x02
+const CAPABILITY_REDUNDANCY := 0x04
+const CAPABILITY_TIME_SYNC := 0x08
+const CAPABILITY_SERVER_MESSAGES := 0x10
+# Not a feature: tells phones to keep the QR pairing key (set when require_pairing is on)
+const CAPABILITY_PAIRING_REQUIRED := 0x20
+const CAPABILITY_NAMES := {
+	CAPABILITY_COMPACT: "compact",
+	CAPABILITY_BATCH: "batch",
+	CAPABILITY_REDUNDANCY: "redundancy",
+	CAPABILITY_TIME_SYNC: "time_sync",
+	CAPABILITY_SERVER_MESSAGES: "server_messages",
+	CAPABILITY_PAIRING_REQUIRED: "pairing_required",
+}
+const SERVER_CAPABILITIES := CAPABILITY_COMPACT | CAPABILITY_BATCH | CAPABILITY_REDUNDANCY \
+	| CAPABILITY_TIME_SYNC | CAPABILITY_SERVER_MESSAGES
 
 const DEVICE_TYPE_PHONE := 0x01
 const COMMAND_TYPE_CALIBRATE := 0x01
 
+# Server message types (byte 1 of a server message packet) and their enum payloads
+const SERVER_MESSAGE_CALIBRATION := 0x01
+const SERVER_MESSAGE_SCORE := 0x02
+const SERVER_MESSAGE_RALLY := 0x03
+const SERVER_MESSAGE_TEXT := 0x04
+const CALIBRATION_STATE_STARTED := 0x01
+const CALIBRATION_STATE_FINISHED := 0x02
+const RALLY_EVENT_START := 0x01
+const RALLY_EVENT_HIT := 0x02
+const RALLY_EVENT_END := 0x03
+
+# Byte 1 of a sensor packet: v1 carries device_type (0x01) there, v2 the protocol version.
+const PROTOCOL_VERSION_V1 := 0x01
+const PROTOCOL_VERSION_V2 := 0x02
+const PACKET_FLAG_SESSION_START := 0x01
+# Sample timestamps are on this server's clock (see get_server_time_ms), not the phone's.
+const PACKET_FLAG_SERVER_CLOCK := 0x02
+# The packet ends in a PACKET_MAC_SIZE-byte truncated HMAC-SHA256 (see _authenticate_packet).
+const PACKET_FLAG_AUTHENTICATED := 0x04
+const SENSOR_PACKET_V1_SIZE := 46
+const SENSOR_PACKET_V2_SIZE := 52
+const SENSOR_QUAT_PACKET_SIZE := 56
+const SENSOR_COMPACT_PACKET_SIZE := 30
+const SENSOR_QUAT_COMPACT_PACKET_SIZE := 32
+const SENSOR_BATCH_HEADER_SIZE := 10
+const SENSOR_REDUNDANT_HEADER_SIZE := 11
+const HEARTBEAT_RESPONSE_SIZE := 17
+const TIME_SYNC_REQUEST_SIZE := 9
+const TIME_SYNC_RESPONSE_SIZE := 25
+const SERVER_MESSAGE_HEADER_SIZE := 10
+const HELLO_MIN_SIZE := 6
+const WELCOME_SIZE := 14
+const SESSION_TOKEN_SIZE := 8
+const SESSION_HEADER_SIZE := 9
+const COMMAND_PACKET_SIZE := 10
+const PACKET_MAC_SIZE := 8
+const PAIRING_KEY_SIZE := 16
+# Per-sample body sizes (single-sample packet minus the v2 header), by sample format
+const SENSOR_SAMPLE_SIZES := {
+	PACKET_TYPE_SENSOR: 44,
+	PACKET_TYPE_SENSOR_QUAT: 48,
+	PACKET_TYPE_SENSOR_COMPACT: 22,
+	PACKET_TYPE_SENSOR_QUAT_COMPACT: 24,
+}
+
+# Fixed-point scales for compact packets (value = int16 / scale)
+const COMPACT_SCALE_ANGLE := 5000.0
+const COMPACT_SCALE_QUATERNION := 32767.0
+const COMPACT_SCALE_GYRO := 10.0
+const COMPACT_SCALE_ACCEL := 100.0
+const PACKET_HEADER_V2_SIZE := 8
+
 var _udp_server := UDPServer.new()
 var _packet_peer := PacketPeerUDP.new()
-var _peers: Dictionary = {}  # peer_id -> {address, port, last_activity}
+var _peers: Dictionary = {}  # peer_id -> {address, port, last_activity, last_sequence, lost_packets, reordered_packets, recovered_samples, coalesced_packets}
 var _address_to_peer_id: Dictionary = {}  # "ip:port" -> peer_id
+var _session_to_peer_id: Dictionary = {}  # hex session token -> peer_id
+var _crypto := Crypto.new()
+var _pairing_key := PackedByteArray()
 var _next_peer_id := 1000  # Start at 1000 to avoid collision with WebSocket peer IDs
 var _is_listening := false
 var _last_timeout_check_time := 0
@@ -36,6 +133,8 @@ var _last_timeout_check_time := 0
 func start_server() -> Error:
 	var err := _udp_server.listen(PORT)
 	if err == OK:
+		# A fresh key per launch, so a QR code from an earlier game cannot pair.
+		_pairing_key = _crypto.generate_random_bytes(PAIRING_KEY_SIZE)
 		_is_listening = true
 		_last_timeout_check_time = Time.get_ticks_msec()
 		print("[UDP Server] Listening on port %d (max connections: %d)" % [PORT, MAX_CONNECTIONS])
@@ -49,6 +148,7 @@ func stop_server() -> void:
 		_disconnect_peer(peer_id, "server_shutdown")
 	_peers.clear()
 	_address_to_peer_id.clear()
+	_session_to_peer_id.clear()
 	_udp_server.stop()
 	_is_listening = false
 	print("[UDP Server] Stopped.")
@@ -62,6 +162,11 @@ func get_peer_count() -> int:
 	return _peers.size()
 
 
+## Key for the QR code; phones that scanned it sign their packets with it.
+func get_pairing_key() -> PackedByteArray:
+	return _pairing_key
+
+
 func get_stats() -> Dictionary:
 	return {
 		"active_peers": _peers.size(),
@@ -85,6 +190,7 @@ func poll() -> void:
 
 	# Process incoming packets.
 	# Keep only the newest sensor packet per peer to avoid backlog-induced latency.
+	# Batch packets are not coalesced: every sample they carry is wanted.
 	var latest_sensor_packets: Dictionary = {}
 	while _udp_server.is_connection_available():
 		var conn := _udp_server.take_connection()
@@ -92,16 +198,19 @@ func poll() -> void:
 			continue
 
 		while conn.get_available_packet_count() > 0:
-			var packet := conn.get_packet()
 			var addr := conn.get_packet_ip()
 			var port := conn.get_packet_port()
+			var addr_key := "%s:%d" % [addr, port]
+			var packet := _open_session_envelope(conn.get_packet(), addr, port)
+			packet = _authenticate_packet(packet, addr_key)
 			if packet.size() < 1:
 				continue
 
 			var packet_type := packet.decode_u8(0)
-			var addr_key := "%s:%d" % [addr, port]
 
-			if packet_type == PACKET_TYPE_SENSOR:
+			if _is_sensor_packet_type(packet_type):
+				if latest_sensor_packets.has(addr_key):
+					_skip_coalesced_packet(latest_sensor_packets[addr_key]["packet"], addr_key)
 				latest_sensor_packets[addr_key] = {
 					"packet": packet,
 					"addr": addr,
@@ -112,8 +221,9 @@ func poll() -> void:
 
 	for addr_key in latest_sensor_packets.keys():
 		var latest_packet = latest_sensor_packets[addr_key]
-		_process_sensor_packet(
+		_process_packet_with_type(
 			latest_packet["packet"],
+			latest_packet["packet"].decode_u8(0),
 			addr_key,
 			latest_packet["addr"],
 			latest_packet["port"]
@@ -121,31 +231,139 @@ func poll() -> void:
 
 
 func _process_packet(packet: PackedByteArray, addr: String, port: int) -> void:
+	var addr_key := "%s:%d" % [addr, port]
+	packet = _open_session_envelope(packet, addr, port)
+	packet = _authenticate_packet(packet, addr_key)
 	if packet.size() < 1:
 		return
 
 	var packet_type := packet.decode_u8(0)
-	var addr_key := "%s:%d" % [addr, port]
 	_process_packet_with_type(packet, packet_type, addr_key, addr, port)
 
 
+## Unwrap a session packet (u8 0x11, 8-byte token, then the original packet)
+## and, if the phone's address changed since its last packet, move its peer
+## there. Returns an empty array for packets to drop: unknown tokens, and
+## untokened packets from an address bound to a session peer, which could be
+## spoofed to impersonate it. Untokened packets from other addresses pass, so
+## phones that predate sessions keep working next to ones that use them.
+func _open_session_envelope(packet: PackedByteArray, addr: String, port: int) -> PackedByteArray:
+	if packet.size() < 1:
+		return packet
+
+	var packet_type := packet.decode_u8(0)
+	if packet_type != PACKET_TYPE_SESSION:
+		# Hellos carry their own resume token; probes and time sync register no peer.
+		if packet_type == PACKET_TYPE_HELLO \
+				or packet_type == PACKET_TYPE_DISCOVERY_PROBE \
+				or packet_type == PACKET_TYPE_TIME_SYNC_REQUEST:
+			return packet
+		var addr_key := "%s:%d" % [addr, port]
+		if _address_to_peer_id.has(addr_key) and _peers[_address_to_peer_id[addr_key]].has("session_token"):
+			return PackedByteArray()
+		return packet
+
+	if packet.size() <= SESSION_HEADER_SIZE:
+		push_warning("[UDP Server] Invalid session packet size: %d from %s:%d" % [packet.size(), addr, port])
+		return PackedByteArray()
+
+	# Unknown tokens are usually from before a server restart; the phone starts
+	# a new session once its heartbeats go unanswered.
+	var token := packet.slice(1, SESSION_HEADER_SIZE).hex_encode()
+	if not _session_to_peer_id.has(token):
+		return PackedByteArray()
+
+	var peer_id: int = _session_to_peer_id[token]
+	var peer_data = _peers[peer_id]
+	if peer_data.address != addr or peer_data.port != port:
+		_move_peer(peer_id, addr, port)
+	return packet.slice(SESSION_HEADER_SIZE)
+
+
+## Check and strip the MAC of a signed sensor or command packet. Sensor, batch
+## and redundant packets say they are signed with PACKET_FLAG_AUTHENTICATED;
+## command packets by being PACKET_MAC_SIZE bytes longer than usual. The MAC is
+## the first PACKET_MAC_SIZE bytes of HMAC-SHA256(pairing key, rest of packet).
+## Returns an empty array for packets to drop: bad MACs, and unsigned sensor
+## and command packets while require_pairing is on. Other packets pass as-is.
+func _authenticate_packet(packet: PackedByteArray, addr_key: String) -> PackedByteArray:
+	if packet.size() < 2:
+		return packet
+
+	var packet_type := packet.decode_u8(0)
+	var is_signed := false
+	if packet_type == PACKET_TYPE_COMMAND:
+		is_signed = packet.size() == COMMAND_PACKET_SIZE + PACKET_MAC_SIZE
+	elif _is_sensor_packet_type(packet_type) \
+			or packet_type == PACKET_TYPE_SENSOR_BATCH \
+			or packet_type == PACKET_TYPE_SENSOR_REDUNDANT:
+		is_signed = packet.size() >= PACKET_HEADER_V2_SIZE + PACKET_MAC_SIZE \
+			and packet.decode_u8(1) == PROTOCOL_VERSION_V2 \
+			and packet.decode_u8(2) & PACKET_FLAG_AUTHENTICATED
+	else:
+		return packet
+
+	if not is_signed:
+		if require_pairing:
+			return PackedByteArray()
+		return packet
+
+	var body_size := packet.size() - PACKET_MAC_SIZE
+	var body := packet.slice(0, body_size)
+	var expected := _crypto.hmac_digest(HashingContext.HASH_SHA256, _pairing_key, body).slice(0, PACKET_MAC_SIZE)
+	if not _crypto.constant_time_compare(expected, packet.slice(body_size)):
+		push_warning("[UDP Server] Dropping packet with a bad MAC from %s" % addr_key)
+		return PackedByteArray()
+	return body
+
+
+## Rebind a peer to the address its phone now sends from, keeping its ID and
+## sequence state. Any other peer registered at that address is dropped.
+func _move_peer(peer_id: int, addr: String, port: int) -> void:
+	var peer_data = _peers[peer_id]
+	var old_key := "%s:%d" % [peer_data.address, peer_data.port]
+	var new_key := "%s:%d" % [addr, port]
+	if _address_to_peer_id.has(new_key) and _address_to_peer_id[new_key] != peer_id:
+		_disconnect_peer(_address_to_peer_id[new_key], "replaced by resumed session")
+
+	_address_to_peer_id.erase(old_key)
+	_address_to_peer_id[new_key] = peer_id
+	peer_data.address = addr
+	peer_data.port = port
+	print("[UDP Server] Peer %d resumed from %s (was %s)" % [peer_id, new_key, old_key])
+
+
 func _process_packet_with_type(packet: PackedByteArray, packet_type: int, addr_key: String, addr: String, port: int) -> void:
 
 	match packet_type:
 		PACKET_TYPE_SENSOR:
 			_process_sensor_packet(packet, addr_key, addr, port)
+		PACKET_TYPE_SENSOR_QUAT:
+			_process_quaternion_sensor_packet(packet, addr_key, addr, port)
+		PACKET_TYPE_SENSOR_COMPACT, PACKET_TYPE_SENSOR_QUAT_COMPACT:
+			_process_compact_sensor_packet(packet, packet_type, addr_key, addr, port)
+		PACKET_TYPE_SENSOR_BATCH, PACKET_TYPE_SENSOR_REDUNDANT:
+			_process_sensor_batch_packet(packet, packet_type, addr_key, addr, port)
 		PACKET_TYPE_HEARTBEAT:
 			_process_heartbeat_packet(packet, addr_key, addr, port)
 		PACKET_TYPE_COMMAND:
 			_process_command_packet(packet, addr_key, addr, port)
+		PACKET_TYPE_DISCOVERY_PROBE:
+			_process_discovery_probe_packet(packet, addr_key, addr, port)
+		PACKET_TYPE_TIME_SYNC_REQUEST:
+			_process_time_sync_packet(packet, addr_key, addr, port)
+		PACKET_TYPE_HELLO:
+			_process_hello_packet(packet, addr_key, addr, port)
 		_:
 			push_warning("[UDP Server] Unknown packet type: %d from %s" % [packet_type, addr_key])
 
 
 func _process_sensor_packet(packet: PackedByteArray, addr_key: String, addr: String, port: int) -> void:
-	# Sensor packet must be exactly 46 bytes
-	if packet.size() != 46:
-		push_warning("[UDP Server] Invalid sensor packet size: %d (expected 46) from %s" % [packet.size(), addr_key])
+	# v1 sensor packets are exactly 46 bytes, v2 packets exactly 52 bytes.
+	var version := packet.decode_u8(1) if packet.size() >= 2 else 0
+	var expected_size := SENSOR_PACKET_V2_SIZE if version == PROTOCOL_VERSION_V2 else SENSOR_PACKET_V1_SIZE
+	if packet.size() != expected_size:
+		push_warning("[UDP Server] Invalid sensor packet size: %d (expected %d) from %s" % [packet.size(), expected_size, addr_key])
 		return
 
 	# Get or create peer
@@ -154,26 +372,39 @@ func _process_sensor_packet(packet: PackedByteArray, addr_key: String, addr: Str
 		return  # Max connections reached
 
 	# Update activity
-	_peers[peer_id].last_activity = Time.get_ticks_msec()
+	var peer_data = _peers[peer_id]
+	peer_data.last_activity = Time.get_ticks_msec()
 
 	# Decode binary data (little-endian)
-	# Offset 0: u8 packet_type (already read)
-	# Offset 1: u8 device_type
-	var device_type := packet.decode_u8(1)
-
-	# Offsets 2-37: f32 sensor values (little-endian, Godot default)
-	var ra := packet.decode_float(2)   # Euler alpha (yaw)
-	var rb := packet.decode_float(6)   # Euler beta (pitch)
-	var rg := packet.decode_float(10)  # Euler gamma (roll)
-	var ga := packet.decode_float(14)  # Gyro alpha
-	var gb := packet.decode_float(18)  # Gyro beta
-	var gg := packet.decode_float(22)  # Gyro gamma
-	var ax := packet.decode_float(26)  # Accel X
-	var ay := packet.decode_float(30)  # Accel Y
-	var az := packet.decode_float(34)  # Accel Z
-
-	# Offsets 38-45: f64 timestamp
-	var ts := packet.decode_double(38)
+	# v1: offset 1 u8 device_type, values from offset 2
+	# v2: offset 1 u8 version, 2 u8 flags, 3 u8 device_type, 4-7 u32 sequence, values from offset 8
+	var device_type := DEVICE_TYPE_PHONE
+	var values_offset := 2
+	var sequence := -1
+	var flags := 0
+	if version == PROTOCOL_VERSION_V2:
+		flags = packet.decode_u8(2)
+		device_type = packet.decode_u8(3)
+		sequence = packet.decode_u32(4)
+		values_offset = PACKET_HEADER_V2_SIZE
+		if not _accept_sequence(peer_data, sequence, flags):
+			return
+	else:
+		device_type = packet.decode_u8(1)
+
+	# Nine f32 sensor values (little-endian, Godot default)
+	var ra := packet.decode_float(values_offset)       # Euler alpha (yaw)
+	var rb := packet.decode_float(values_offset + 4)   # Euler beta (pitch)
+	var rg := packet.decode_float(values_offset + 8)   # Euler gamma (roll)
+	var ga := packet.decode_float(values_offset + 12)  # Gyro alpha
+	var gb := packet.decode_float(values_offset + 16)  # Gyro beta
+	var gg := packet.decode_float(values_offset + 20)  # Gyro gamma
+	var ax := packet.decode_float(values_offset + 24)  # Accel X
+	var ay := packet.decode_float(values_offset + 28)  # Accel Y
+	var az := packet.decode_float(values_offset + 32)  # Accel Z
+
+	# f64 timestamp
+	var ts := packet.decode_double(values_offset + 36)
 
 	# Build data dictionary with same keys as JSON protocol
 	var data := {
@@ -190,10 +421,272 @@ func _process_sensor_packet(packet: PackedByteArray, addr_key: String, addr: Str
 		"az": az,
 		"ts": int(ts)
 	}
+	if sequence >= 0:
+		data["seq"] = sequence
+	if flags & PACKET_FLAG_SERVER_CLOCK:
+		data["clock"] = "server"
 
 	sensor_data_received.emit(peer_id, data)
 
 
+func _process_quaternion_sensor_packet(packet: PackedByteArray, addr_key: String, addr: String, port: int) -> void:
+	# Quaternion sensor packets always use the v2 header and are exactly 56 bytes.
+	if packet.size() != SENSOR_QUAT_PACKET_SIZE or packet.decode_u8(1) != PROTOCOL_VERSION_V2:
+		push_warning("[UDP Server] Invalid quaternion sensor packet (size %d) from %s" % [packet.size(), addr_key])
+		return
+
+	var peer_id := _get_or_create_peer(addr_key, addr, port)
+	if peer_id == -1:
+		return
+
+	var peer_data = _peers[peer_id]
+	peer_data.last_activity = Time.get_ticks_msec()
+
+	var flags := packet.decode_u8(2)
+	var device_type := packet.decode_u8(3)
+	var sequence := packet.decode_u32(4)
+	if not _accept_sequence(peer_data, sequence, flags):
+		return
+
+	var data := {
+		"type": "sensor",
+		"device": "phone" if device_type == DEVICE_TYPE_PHONE else "unknown",
+		"seq": sequence
+	}
+	_decode_sample_values(packet, PACKET_TYPE_SENSOR_QUAT, PACKET_HEADER_V2_SIZE, data)
+	if flags & PACKET_FLAG_SERVER_CLOCK:
+		data["clock"] = "server"
+
+	sensor_data_received.emit(peer_id, data)
+
+
+func _process_compact_sensor_packet(packet: PackedByteArray, packet_type: int, addr_key: String, addr: String, port: int) -> void:
+	# Compact packets use int16 fixed-point values and a u32 ms offset from the
+	# phone's session epoch instead of an f64 timestamp.
+	var is_quat := packet_type == PACKET_TYPE_SENSOR_QUAT_COMPACT
+	var expected_size := SENSOR_QUAT_COMPACT_PACKET_SIZE if is_quat else SENSOR_COMPACT_PACKET_SIZE
+	if packet.size() != expected_size or packet.decode_u8(1) != PROTOCOL_VERSION_V2:
+		push_warning("[UDP Server] Invalid compact sensor packet (size %d) from %s" % [packet.size(), addr_key])
+		return
+
+	var peer_id := _get_or_create_peer(addr_key, addr, port)
+	if peer_id == -1:
+		return
+
+	var peer_data = _peers[peer_id]
+	peer_data.last_activity = Time.get_ticks_msec()
+
+	var flags := packet.decode_u8(2)
+	var device_type := packet.decode_u8(3)
+	var sequence := packet.decode_u32(4)
+	if not _accept_sequence(peer_data, sequence, flags):
+		return
+
+	var data := {
+		"type": "sensor",
+		"device": "phone" if device_type == DEVICE_TYPE_PHONE else "unknown",
+		"seq": sequence
+	}
+	_decode_sample_values(packet, packet_type, PACKET_HEADER_V2_SIZE, data)
+	if flags & PACKET_FLAG_SERVER_CLOCK:
+		data["clock"] = "server"
+
+	sensor_data_received.emit(peer_id, data)
+
+
+func _process_sensor_batch_packet(packet: PackedByteArray, packet_type: int, addr_key: String, addr: String, port: int) -> void:
+	# Batch layout: v2 header (sequence of the first sample), u8 sample_format,
+	# u8 sample_count, then sample_count bodies of that format. Sample i has
+	# sequence header_sequence + i.
+	# Redundant packets add u8 redundant_count at offset 10: the leading samples
+	# were already sent in earlier datagrams and only fill gaps left by loss.
+	var is_redundant := packet_type == PACKET_TYPE_SENSOR_REDUNDANT
+	var header_size := SENSOR_REDUNDANT_HEADER_SIZE if is_redundant else SENSOR_BATCH_HEADER_SIZE
+	if packet.size() < header_size or packet.decode_u8(1) != PROTOCOL_VERSION_V2:
+		push_warning("[UDP Server] Invalid sensor batch packet (size %d) from %s" % [packet.size(), addr_key])
+		return
+
+	var sample_format := packet.decode_u8(8)
+	var sample_count := packet.decode_u8(9)
+	var redundant_count := packet.decode_u8(10) if is_redundant else 0
+	if not SENSOR_SAMPLE_SIZES.has(sample_format) or sample_count == 0 or redundant_count >= sample_count:
+		push_warning("[UDP Server] Invalid sensor batch format %d from %s" % [sample_format, addr_key])
+		return
+	var sample_size: int = SENSOR_SAMPLE_SIZES[sample_format]
+	if packet.size() != header_size + sample_size * sample_count:
+		push_warning("[UDP Server] Invalid sensor batch packet (size %d) from %s" % [packet.size(), addr_key])
+		return
+
+	var peer_id := _get_or_create_peer(addr_key, addr, port)
+	if peer_id == -1:
+		return
+
+	var peer_data = _peers[peer_id]
+	peer_data.last_activity = Time.get_ticks_msec()
+
+	var flags := packet.decode_u8(2)
+	var device := "phone" if packet.decode_u8(3) == DEVICE_TYPE_PHONE else "unknown"
+	var first_sequence := packet.decode_u32(4)
+	for i in range(sample_count):
+		var sequence := (first_sequence + i) & 0xFFFFFFFF
+		var is_redundant_sample := i < redundant_count
+		if is_redundant_sample:
+			# Already received unless its original datagram was lost; repeats are expected, not reordering.
+			var last_sequence: int = peer_data.last_sequence
+			var delta := (sequence - last_sequence) & 0xFFFFFFFF
+			if last_sequence >= 0 and (delta == 0 or delta >= 0x80000000):
+				continue
+		# Only the first sample can start a session.
+		var sample_flags := flags if i == 0 else 0
+		if not _accept_sequence(peer_data, sequence, sample_flags):
+			continue
+		if is_redundant_sample:
+			peer_data.recovered_samples += 1
+
+		var data := {
+			"type": "sensor",
+			"device": device,
+			"seq": sequence
+		}
+		_decode_sample_values(packet, sample_format, header_size + i * sample_size, data)
+		if flags & PACKET_FLAG_SERVER_CLOCK:
+			data["clock"] = "server"
+		sensor_data_received.emit(peer_id, data)
+
+
+## Decode a v2 sensor or batch packet that arrived outside UDP (binary
+## WebSocket frames) into sample dictionaries, oldest first. That transport is
+## reliable and ordered, so no sequence tracking is applied. Returns an empty
+## array for anything else.
+func decode_sensor_samples(packet: PackedByteArray) -> Array:
+	if packet.size() < PACKET_HEADER_V2_SIZE or packet.decode_u8(1) != PROTOCOL_VERSION_V2:
+		return []
+
+	var sample_format := packet.decode_u8(0)
+	var sample_count := 1
+	var body_offset := PACKET_HEADER_V2_SIZE
+	if sample_format == PACKET_TYPE_SENSOR_BATCH:
+		if packet.size() < SENSOR_BATCH_HEADER_SIZE:
+			return []
+		sample_format = packet.decode_u8(8)
+		sample_count = packet.decode_u8(9)
+		body_offset = SENSOR_BATCH_HEADER_SIZE
+	if not SENSOR_SAMPLE_SIZES.has(sample_format) or sample_count == 0:
+		return []
+	var sample_size: int = SENSOR_SAMPLE_SIZES[sample_format]
+	if packet.size() != body_offset + sample_size * sample_count:
+		return []
+
+	var flags := packet.decode_u8(2)
+	var device := "phone" if packet.decode_u8(3) == DEVICE_TYPE_PHONE else "unknown"
+	var first_sequence := packet.decode_u32(4)
+	var samples := []
+	for i in range(sample_count):
+		var data := {
+			"type": "sensor",
+			"device": device,
+			"seq": (first_sequence + i) & 0xFFFFFFFF
+		}
+		_decode_sample_values(packet, sample_format, body_offset + i * sample_size, data)
+		if flags & PACKET_FLAG_SERVER_CLOCK:
+			data["clock"] = "server"
+		samples.append(data)
+	return samples
+
+
+## Decode one v2 sample body of the given format into data, using the same keys
+## as the JSON protocol. Compact formats report "ts" as the ms offset from the
+## phone's session epoch.
+func _decode_sample_values(packet: PackedByteArray, sample_format: int, offset: int, data: Dictionary) -> void:
+	match sample_format:
+		PACKET_TYPE_SENSOR:
+			data["ra"] = packet.decode_float(offset)
+			data["rb"] = packet.decode_float(offset + 4)
+			data["rg"] = packet.decode_float(offset + 8)
+			_decode_motion_values(packet, offset + 12, data)
+			data["ts"] = int(packet.decode_double(offset + 36))
+		PACKET_TYPE_SENSOR_QUAT:
+			# Unit quaternion in the W3C device frame (matches Godot's)
+			data["qx"] = packet.decode_float(offset)
+			data["qy"] = packet.decode_float(offset + 4)
+			data["qz"] = packet.decode_float(offset + 8)
+			data["qw"] = packet.decode_float(offset + 12)
+			_decode_motion_values(packet, offset + 16, data)
+			data["ts"] = int(packet.decode_double(offset + 40))
+		PACKET_TYPE_SENSOR_COMPACT:
+			data["ts"] = packet.decode_u32(offset)
+			data["ra"] = packet.decode_s16(offset + 4) / COMPACT_SCALE_ANGLE
+			data["rb"] = packet.decode_s16(offset + 6) / COMPACT_SCALE_ANGLE
+			data["rg"] = packet.decode_s16(offset + 8) / COMPACT_SCALE_ANGLE
+			_decode_compact_motion_values(packet, offset + 10, data)
+		PACKET_TYPE_SENSOR_QUAT_COMPACT:
+			data["ts"] = packet.decode_u32(offset)
+			data["qx"] = packet.decode_s16(offset + 4) / COMPACT_SCALE_QUATERNION
+			data["qy"] = packet.decode_s16(offset + 6) / COMPACT_SCALE_QUATERNION
+			data["qz"] = packet.decode_s16(offset + 8) / COMPACT_SCALE_QUATERNION
+			data["qw"] = packet.decode_s16(offset + 10) / COMPACT_SCALE_QUATERNION
+			_decode_compact_motion_values(packet, offset + 12, data)
+
+
+## Gyro (deg/s) and accel (m/s^2) as six f32 values.
+func _decode_motion_values(packet: PackedByteArray, offset: int, data: Dictionary) -> void:
+	data["ga"] = packet.decode_float(offset)
+	data["gb"] = packet.decode_float(offset + 4)
+	data["gg"] = packet.decode_float(offset + 8)
+	data["ax"] = packet.decode_float(offset + 12)
+	data["ay"] = packet.decode_float(offset + 16)
+	data["az"] = packet.decode_float(offset + 20)
+
+
+## Gyro and accel as six int16 fixed-point values.
+func _decode_compact_motion_values(packet: PackedByteArray, offset: int, data: Dictionary) -> void:
+	data["ga"] = packet.decode_s16(offset) / COMPACT_SCALE_GYRO
+	data["gb"] = packet.decode_s16(offset + 2) / COMPACT_SCALE_GYRO
+	data["gg"] = packet.decode_s16(offset + 4) / COMPACT_SCALE_GYRO
+	data["ax"] = packet.decode_s16(offset + 6) / COMPACT_SCALE_ACCEL
+	data["ay"] = packet.decode_s16(offset + 8) / COMPACT_SCALE_ACCEL
+	data["az"] = packet.decode_s16(offset + 10) / COMPACT_SCALE_ACCEL
+
+
+static func _is_sensor_packet_type(packet_type: int) -> bool:
+	return packet_type == PACKET_TYPE_SENSOR \
+		or packet_type == PACKET_TYPE_SENSOR_QUAT \
+		or packet_type == PACKET_TYPE_SENSOR_COMPACT \
+		or packet_type == PACKET_TYPE_SENSOR_QUAT_COMPACT
+
+
+## Account for a single-sample packet superseded by a newer one from the same
+## peer in this poll. Its sequence is marked as received, so the skip counts as
+## coalesced rather than as a lost sample.
+func _skip_coalesced_packet(packet: PackedByteArray, addr_key: String) -> void:
+	if not _address_to_peer_id.has(addr_key):
+		return
+	if packet.size() < PACKET_HEADER_V2_SIZE or packet.decode_u8(1) != PROTOCOL_VERSION_V2:
+		return
+	var peer_data = _peers[_address_to_peer_id[addr_key]]
+	if _accept_sequence(peer_data, packet.decode_u32(4), packet.decode_u8(2)):
+		peer_data.coalesced_packets += 1
+
+
+## Track v2 sequence numbers per peer. Returns false for duplicate or
+## reordered packets, which are dropped. Gaps are counted as lost packets.
+func _accept_sequence(peer_data: Dictionary, sequence: int, flags: int) -> bool:
+	var last_sequence: int = peer_data.last_sequence
+	if flags & PACKET_FLAG_SESSION_START or last_sequence < 0:
+		peer_data.last_sequence = sequence
+		return true
+
+	# Distance modulo 2^32 so wrap-around is handled.
+	var delta := (sequence - last_sequence) & 0xFFFFFFFF
+	if delta == 0 or delta >= 0x80000000:
+		peer_data.reordered_packets += 1
+		return false
+
+	peer_data.lost_packets += delta - 1
+	peer_data.last_sequence = sequence
+	return true
+
+
 func _process_heartbeat_packet(packet: PackedByteArray, addr_key: String, addr: String, port: int) -> void:
 	# Heartbeat packet must be exactly 9 bytes
 	if packet.size() != 9:
@@ -206,13 +699,160 @@ func _process_heartbeat_packet(packet: PackedByteArray, addr_key: String, addr:
 		return  # Max connections reached
 
 	# Update activity
-	_peers[peer_id].last_activity = Time.get_ticks_msec()
+	var peer_data = _peers[peer_id]
+	peer_data.last_activity = Time.get_ticks_msec()
 
 	# Decode timestamp
 	var timestamp := packet.decode_double(1)
 
 	# Send heartbeat response
-	_send_heartbeat_response(addr, port, timestamp)
+	_send_heartbeat_response(addr, port, timestamp, peer_data)
+
+
+func _process_discovery_probe_packet(packet: PackedByteArray, addr_key: String, addr: String, port: int) -> void:
+	# Discovery probes measure RTT from the phone's server picker.
+	# They are answered without registering a peer.
+	if packet.size() != 9:
+		push_warning("[UDP Server] Invalid discovery probe size: %d (expected 9) from %s" % [packet.size(), addr_key])
+		return
+
+	var response := PackedByteArray()
+	response.resize(9)
+	response.encode_u8(0, PACKET_TYPE_DISCOVERY_PROBE_RESPONSE)
+	response.encode_double(1, packet.decode_double(1))
+
+	_packet_peer.set_dest_address(addr, port)
+	_packet_peer.put_packet(response)
+
+
+func _process_time_sync_packet(packet: PackedByteArray, addr_key: String, addr: String, port: int) -> void:
+	# NTP-style exchange: echo the phone's send time with our receive and send
+	# times so it can estimate the offset between the two clocks. Answered without
+	# registering a peer, like discovery probes.
+	if packet.size() != TIME_SYNC_REQUEST_SIZE:
+		push_warning("[UDP Server] Invalid time sync request size: %d (expected %d) from %s" % [packet.size(), TIME_SYNC_REQUEST_SIZE, addr_key])
+		return
+
+	# Packets are read once per frame, so the receive time includes time spent
+	# queued; the phone favours the exchanges with the smallest round trip.
+	var receive_time := get_server_time_ms()
+	var response := PackedByteArray()
+	response.resize(TIME_SYNC_RESPONSE_SIZE)
+	response.encode_u8(0, PACKET_TYPE_TIME_SYNC_RESPONSE)
+	response.encode_double(1, packet.decode_double(1))
+	response.encode_double(9, receive_time)
+	response.encode_double(17, get_server_time_ms())
+
+	_packet_peer.set_dest_address(addr, port)
+	_packet_peer.put_packet(response)
+
+
+func _process_hello_packet(packet: PackedByteArray, addr_key: String, addr: String, port: int) -> void:
+	# Hello layout: u16 sensor_rate, u8 format_count, format_count u8 packet
+	# types, then u8-length-prefixed UTF-8 app version and device model, and
+	# optionally the session token of the session the phone wants back.
+	# The phone resends hellos until a welcome arrives, so repeats are normal.
+	var hello := parse_hello_packet(packet)
+	if hello.is_empty():
+		push_warning("[UDP Server] Invalid hello packet (size %d) from %s" % [packet.size(), addr_key])
+		return
+
+	var peer_id := -1
+	var resume_token: String = hello.get("resume_token", "")
+	if _session_to_peer_id.has(resume_token):
+		peer_id = _session_to_peer_id[resume_token]
+		if _peers[peer_id].address != addr or _peers[peer_id].port != port:
+			_move_peer(peer_id, addr, port)
+	elif _address_to_peer_id.has(addr_key) and _peers[_address_to_peer_id[addr_key]].has("session_token"):
+		# A fresh session cannot take over an address that already holds one.
+		push_warning("[UDP Server] Ignoring hello without the session token from %s" % addr_key)
+		return
+	else:
+		peer_id = _get_or_create_peer(addr_key, addr, port)
+	if peer_id == -1:
+		return
+
+	var peer_data = _peers[peer_id]
+	peer_data.last_activity = Time.get_ticks_msec()
+	if not peer_data.has("hello"):
+		peer_data["hello"] = hello
+		client_hello_received.emit(peer_id, hello)
+	if not peer_data.has("session_token"):
+		var token := _crypto.generate_random_bytes(SESSION_TOKEN_SIZE)
+		peer_data["session_token"] = token
+		_session_to_peer_id[token.hex_encode()] = peer_id
+
+	# Welcome layout: u8 protocol version, u32 capability flags, 8-byte session token.
+	var response := PackedByteArray()
+	response.resize(WELCOME_SIZE - SESSION_TOKEN_SIZE)
+	response.encode_u8(0, PACKET_TYPE_WELCOME)
+	response.encode_u8(1, PROTOCOL_VERSION)
+	response.encode_u32(2, get_capabilities())
+	response.append_array(peer_data.session_token)
+
+	_packet_peer.set_dest_address(addr, port)
+	_packet_peer.put_packet(response)
+
+
+## Parse a hello packet into a dictionary (see client_hello_received), or an
+## empty dictionary if it is malformed.
+static func parse_hello_packet(packet: PackedByteArray) -> Dictionary:
+	if packet.size() < HELLO_MIN_SIZE or packet.decode_u8(0) != PACKET_TYPE_HELLO:
+		return {}
+
+	var sensor_rate := packet.decode_u16(1)
+	var format_count := packet.decode_u8(3)
+	var offset := 4
+	if packet.size() < offset + format_count + 2:
+		return {}
+	var formats: Array[int] = []
+	for i in range(format_count):
+		formats.append(packet.decode_u8(offset + i))
+	offset += format_count
+
+	var strings: Array[String] = []
+	for i in range(2):
+		if packet.size() < offset + 1:
+			return {}
+		var length := packet.decode_u8(offset)
+		if packet.size() < offset + 1 + length:
+			return {}
+		strings.append(packet.slice(offset + 1, offset + 1 + length).get_string_from_utf8())
+		offset += 1 + length
+
+	var hello := {
+		"app_version": strings[0],
+		"device_model": strings[1],
+		"sensor_rate": sensor_rate,
+		"formats": formats
+	}
+	if packet.size() >= offset + SESSION_TOKEN_SIZE:
+		hello["resume_token"] = packet.slice(offset, offset + SESSION_TOKEN_SIZE).hex_encode()
+	return hello
+
+
+## Capability flags sent in welcomes: SERVER_CAPABILITIES, plus
+## CAPABILITY_PAIRING_REQUIRED when require_pairing is on.
+func get_capabilities() -> int:
+	if require_pairing:
+		return SERVER_CAPABILITIES | CAPABILITY_PAIRING_REQUIRED
+	return SERVER_CAPABILITIES
+
+
+## Names of get_capabilities(), for JSON welcomes.
+func get_capability_names() -> Array[String]:
+	var capabilities := get_capabilities()
+	var names: Array[String] = []
+	for flag in CAPABILITY_NAMES.keys():
+		if capabilities & flag:
+			names.append(CAPABILITY_NAMES[flag])
+	return names
+
+
+## Server clock used for time sync and for "ts" of samples flagged as server
+## clock: milliseconds since the engine started.
+static func get_server_time_ms() -> float:
+	return Time.get_ticks_usec() / 1000.0
 
 
 func _process_command_packet(packet: PackedByteArray, addr_key: String, addr: String, port: int) -> void:
@@ -261,7 +901,12 @@ func _get_or_create_peer(addr_key: String, addr: String, port: int) -> int:
 	_peers[peer_id] = {
 		"address": addr,
 		"port": port,
-		"last_activity": Time.get_ticks_msec()
+		"last_activity": Time.get_ticks_msec(),
+		"last_sequence": -1,
+		"lost_packets": 0,
+		"reordered_packets": 0,
+		"recovered_samples": 0,
+		"coalesced_packets": 0
 	}
 	_address_to_peer_id[addr_key] = peer_id
 
@@ -271,18 +916,71 @@ func _get_or_create_peer(addr_key: String, addr: String, port: int) -> int:
 	return peer_id
 
 
-func _send_heartbeat_response(addr: String, port: int, timestamp: float) -> void:
-	# Build heartbeat response packet (9 bytes)
+func _send_heartbeat_response(addr: String, port: int, timestamp: float, peer_data: Dictionary) -> void:
+	# Build heartbeat response packet (17 bytes): echoed timestamp, then the
+	# peer's lost and recovered sample counts so the phone can report them.
 	var response := PackedByteArray()
-	response.resize(9)
+	response.resize(HEARTBEAT_RESPONSE_SIZE)
 	response.encode_u8(0, PACKET_TYPE_HEARTBEAT_RESPONSE)
 	response.encode_double(1, timestamp)
+	response.encode_u32(9, mini(peer_data.lost_packets, 0xFFFFFFFF))
+	response.encode_u32(13, mini(peer_data.recovered_samples, 0xFFFFFFFF))
 
 	# Send response
 	_packet_peer.set_dest_address(addr, port)
 	_packet_peer.put_packet(response)
 
 
+## Tell a UDP peer that calibration started or finished.
+func send_calibration_state(peer_id: int, finished: bool) -> bool:
+	var payload := PackedByteArray()
+	payload.resize(1)
+	payload.encode_u8(0, CALIBRATION_STATE_FINISHED if finished else CALIBRATION_STATE_STARTED)
+	return _send_server_message(peer_id, SERVER_MESSAGE_CALIBRATION, payload)
+
+
+## Send the current score to a UDP peer.
+func send_score(peer_id: int, player: int, opponent: int) -> bool:
+	var payload := PackedByteArray()
+	payload.resize(4)
+	payload.encode_u16(0, clampi(player, 0, 0xFFFF))
+	payload.encode_u16(2, clampi(opponent, 0, 0xFFFF))
+	return _send_server_message(peer_id, SERVER_MESSAGE_SCORE, payload)
+
+
+## Send a rally event (one of RALLY_EVENT_*) with the hits so far to a UDP peer.
+func send_rally_event(peer_id: int, event: int, hits: int) -> bool:
+	var payload := PackedByteArray()
+	payload.resize(3)
+	payload.encode_u8(0, event)
+	payload.encode_u16(1, clampi(hits, 0, 0xFFFF))
+	return _send_server_message(peer_id, SERVER_MESSAGE_RALLY, payload)
+
+
+## Send a free-form text notice to a UDP peer.
+func send_text(peer_id: int, text: String) -> bool:
+	return _send_server_message(peer_id, SERVER_MESSAGE_TEXT, text.to_utf8_buffer())
+
+
+func _send_server_message(peer_id: int, message_type: int, payload: PackedByteArray) -> bool:
+	# Server message packet: u8 packet_type, u8 message_type, f64 server time,
+	# then the type-specific payload.
+	if not _peers.has(peer_id):
+		push_warning("[UDP Server] Cannot send message to peer %d: not found" % peer_id)
+		return false
+
+	var peer_data = _peers[peer_id]
+	var packet := PackedByteArray()
+	packet.resize(SERVER_MESSAGE_HEADER_SIZE)
+	packet.encode_u8(0, PACKET_TYPE_SERVER_MESSAGE)
+	packet.encode_u8(1, message_type)
+	packet.encode_double(2, get_server_time_ms())
+	packet.append_array(payload)
+
+	_packet_peer.set_dest_address(peer_data.address, peer_data.port)
+	return _packet_peer.put_packet(packet) == OK
+
+
 func _check_timeouts() -> void:
 	var current_time := Time.get_ticks_msec()
 	var timed_out_peers := []
@@ -308,6 +1006,8 @@ func _disconnect_peer(peer_id: int, reason: String) -> void:
 
 	_peers.erase(peer_id)
 	_address_to_peer_id.erase(addr_key)
+	if peer_data.has("session_token"):
+		_session_to_peer_id.erase(peer_data.session_token.hex_encode())
 
 	peer_disconnected.emit(peer_id)
 	print("[UDP Server] Peer %d disconnected: %s" % [peer_id, reason])
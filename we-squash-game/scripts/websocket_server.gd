@@ -7,6 +7,8 @@ signal peer_connected(peer_id: int)
 signal peer_disconnected(peer_id: int)
 ## Emitted when a text message is received from a peer.
 signal message_received(peer_id: int, message: String)
+## Emitted when a binary message is received from a peer.
+signal binary_received(peer_id: int, packet: PackedByteArray)
 
 const PORT := 9080
 const MAX_CONNECTIONS := 10
@@ -229,14 +231,12 @@ func poll() -> void:
 					var text := packet.get_string_from_utf8()
 					# Handle pong messages
 					if text.find('"type":"ping"') != -1:
-						# Respond with pong
-						var response := JSON.stringify({"type": "pong", "timestamp": Time.get_ticks_msec()})
-						send_to(peer_id, response)
+						# Respond with pong, echoing the ping's timestamp so the client can match it
+						send_to(peer_id, JSON.stringify({"type": "pong", "timestamp": _ping_timestamp(text)}))
 					else:
 						message_received.emit(peer_id, text)
-				# Silently ignore binary packets but count them
 				else:
-					peer_data.last_activity = Time.get_ticks_msec()
+					binary_received.emit(peer_id, packet)
 		elif state == WebSocketPeer.STATE_CLOSED:
 			to_remove_peers.append(peer_id)
 			print("[WS Server] Peer %d disconnected (socket closed)" % peer_id)
@@ -253,6 +253,18 @@ func poll() -> void:
 		_check_timeouts()
 
 
+## The client's send time from a ping message. JSON numbers parse as floats;
+## whole values go back out as ints so the echo matches the sent value exactly.
+func _ping_timestamp(text: String) -> Variant:
+	var data = JSON.parse_string(text)
+	if typeof(data) != TYPE_DICTIONARY:
+		return 0
+	var timestamp = data.get("timestamp", 0)
+	if typeof(timestamp) == TYPE_FLOAT and timestamp == floorf(timestamp):
+		return int(timestamp)
+	return timestamp
+
+
 func get_local_ip() -> String:
 	var addresses := IP.get_local_addresses()
 	for address in addresses: